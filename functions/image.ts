@@ -0,0 +1,36 @@
+import type { Handler } from '@netlify/functions';
+import { ScrapeError, errorResponse } from '../src/scraper';
+import { createThumbnailer, thumbnailWidth } from '../src/scraper/thumbnails';
+
+// Lives as long as the function instance stays warm
+const thumbnailer = createThumbnailer({ maxCacheBytes: 32 * 1024 * 1024 });
+
+export const handler: Handler = async (event) => {
+  if (event.httpMethod !== 'GET') {
+    const { status, body } = errorResponse(new ScrapeError('METHOD_NOT_ALLOWED', 'Method not allowed'));
+    return { statusCode: status, body: JSON.stringify(body) };
+  }
+
+  try {
+    const query = event.queryStringParameters || {};
+    const thumbnail = await thumbnailer.get(query.url || '', thumbnailWidth(query.w), event.headers.accept);
+    const headers = {
+      'Content-Type': thumbnail.contentType,
+      'Cache-Control': 'public, max-age=86400',
+      'ETag': thumbnail.etag,
+      'Vary': 'Accept'
+    };
+    if (event.headers['if-none-match'] === thumbnail.etag) {
+      return { statusCode: 304, headers, body: '' };
+    }
+    return {
+      statusCode: 200,
+      headers,
+      body: thumbnail.body.toString('base64'),
+      isBase64Encoded: true
+    };
+  } catch (error) {
+    const { status, body } = errorResponse(error);
+    return { statusCode: status, body: JSON.stringify(body) };
+  }
+};
@@ -0,0 +1,38 @@
+import { stream } from '@netlify/functions';
+import { PassThrough } from 'stream';
+import { parseRequestBody, scrapeRequestOptions, streamScrapeNews, ScrapeError, errorResponse } from '../src/scraper';
+
+export const handler = stream(async (event) => {
+  // Only allow POST requests
+  if (event.httpMethod !== 'POST') {
+    const { status, body } = errorResponse(new ScrapeError('METHOD_NOT_ALLOWED', 'Method not allowed'));
+    return { statusCode: status, body: JSON.stringify(body) };
+  }
+
+  let request;
+  let requestOptions;
+  try {
+    request = parseRequestBody(event.body);
+    requestOptions = scrapeRequestOptions(request);
+  } catch (error) {
+    const { status, body } = errorResponse(error);
+    return { statusCode: status, body: JSON.stringify(body) };
+  }
+  const body = new PassThrough();
+  // The stream is closed early when the client disconnects
+  const controller = new AbortController();
+  body.on('close', () => controller.abort());
+
+  // Keep well inside the 10 second function time limit
+  streamScrapeNews(request.url, { ...requestOptions, deadlineMs: 8000, signal: controller.signal }, line => body.write(line))
+    .finally(() => body.end());
+
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache'
+    },
+    body
+  };
+});
@@ -0,0 +1,25 @@
+import type { Handler } from '@netlify/functions';
+import { scrapeNews, scrapeRequestOptions, parseRequestBody, ScrapeError, errorResponse } from '../src/scraper';
+
+export const handler: Handler = async (event) => {
+  // Only allow POST requests
+  if (event.httpMethod !== 'POST') {
+    const { status, body } = errorResponse(new ScrapeError('METHOD_NOT_ALLOWED', 'Method not allowed'));
+    return { statusCode: status, body: JSON.stringify(body) };
+  }
+
+  try {
+    const body = parseRequestBody(event.body);
+
+    // Keep well inside the 10 second function time limit
+    const result = await scrapeNews(body.url, { ...scrapeRequestOptions(body), deadlineMs: 8000 });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(result)
+    };
+  } catch (error) {
+    const { status, body } = errorResponse(error);
+    return { statusCode: status, body: JSON.stringify(body) };
+  }
+};
@@ -1,503 +1,239 @@
+require('ts-node/register');
+
 const express = require('express');
 const cors = require('cors');
-const axios = require('axios');
-const cheerio = require('cheerio');
+const {
+  scrapeNews, streamScrapeNews, scrapeArticle, scrapeRequestOptions, ScrapeError, errorResponse, initProfiles, watchProfiles
+} = require('./src/scraper');
+const { openArticleStore, articleStorePath } = require('./src/scraper/store');
+const { createScheduler, loadSources } = require('./src/scraper/scheduler');
+const { newsSources } = require('./src/scraper/sources');
+const { createRenderer } = require('./src/scraper/render');
+const { createThumbnailer, thumbnailWidth } = require('./src/scraper/thumbnails');
+const { createRateLimiter, createOutboundBudget, parseApiKeys, isValidApiKey } = require('./src/scraper/limits');
+
+// Fail fast on a broken site profile instead of on the first scrape
+const profiles = initProfiles();
+console.log('Loaded', profiles.length, 'site profiles');
+if (process.env.NODE_ENV !== 'production') {
+  watchProfiles();
+}
+
+// Every scraped article is kept here so repeat scrapes update rows and the UI can browse history
+const articleStore = openArticleStore();
+console.log('Article store:', articleStorePath);
+
+// Headless Chromium for JavaScript-built pages, launched on first use; RENDERER=off disables it
+const renderer = process.env.RENDERER === 'off' ? null : createRenderer({ executablePath: process.env.CHROMIUM_PATH });
 
 const app = express();
 const port = process.env.PORT || 5000;
 
+// Behind a reverse proxy, req.ip (and so rate limiting) needs the proxy trusted, e.g. TRUST_PROXY=1
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
+
+// Page downloads and renders in flight across every scrape, shared out between clients in turn
+const outboundBudget = createOutboundBudget(Number(process.env.OUTBOUND_CONCURRENCY) || 12);
+
+// Resized article images, kept in memory so a page of cards costs one download each
+const thumbnailer = createThumbnailer({ outboundSlot: outboundBudget.forClient('images') });
+
+// Requests per client per minute: scrapes fan out into many fetches, everything else is cheap
+const scrapeLimiter = createRateLimiter({ limit: Number(process.env.SCRAPE_RATE_LIMIT) || 10, windowMs: 60 * 1000 });
+const apiLimiter = createRateLimiter({ limit: Number(process.env.API_RATE_LIMIT) || 300, windowMs: 60 * 1000 });
+setInterval(() => {
+  scrapeLimiter.prune();
+  apiLimiter.prune();
+}, 60 * 1000).unref();
+
+// With API_KEYS set, every API call but /api/test needs one of the keys
+const apiKeys = parseApiKeys(process.env.API_KEYS);
+if (apiKeys.length > 0) {
+  console.log('API keys required:', apiKeys.length, 'configured');
+}
+
+// Article fetching limits; unset values fall back to the scraper defaults
+const scrapeOptions = {
+  concurrency: Number(process.env.SCRAPE_CONCURRENCY) || undefined,
+  perHostConcurrency: Number(process.env.SCRAPE_PER_HOST_CONCURRENCY) || undefined,
+  deadlineMs: Number(process.env.SCRAPE_DEADLINE_MS) || undefined,
+  saveArticles: news => articleStore.save(news),
+  renderPage: renderer ? renderer.render : undefined
+};
+
+// Background re-crawls of the preset sources, or of SOURCES_FILE when set
+const scheduler = createScheduler(
+  process.env.SOURCES_FILE ? loadSources(process.env.SOURCES_FILE) : newsSources,
+  source => scrapeNews(source.url, { ...scrapeOptions, includeHtml: true, outboundSlot: outboundBudget.forClient('scheduler') })
+);
+if (process.env.SCHEDULER !== 'off') {
+  scheduler.start();
+}
+
 app.use(cors({
   origin: 'http://localhost:3000',
   methods: ['GET', 'POST'],
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['Retry-After', 'RateLimit-Remaining']
 }));
 
 app.use(express.json());
 
+// Every error goes out as { error, code } with the status errors.ts gives the code
+const sendError = (res, error) => {
+  const { status, body } = errorResponse(error);
+  res.status(status).json(body);
+};
+
+// The key from an X-API-Key header, a Bearer token, or (for <img> URLs) a key query parameter
+const apiKeyOf = req => {
+  const bearer = (req.get('Authorization') || '').match(/^Bearer\s+(.+)$/i);
+  return req.get('X-API-Key') || (bearer && bearer[1]) || (typeof req.query.key === 'string' ? req.query.key : undefined);
+};
+
+// Requests are counted per address, and per key as well when keys are in use. The app's
+// key is built into a public bundle, so on its own it would put every visitor in one bucket.
+const clientOf = req => (apiKeys.length > 0 ? `key:${apiKeyOf(req)} ip:${req.ip}` : `ip:${req.ip}`);
+
+app.use('/api', (req, res, next) => {
+  if (apiKeys.length === 0 || req.path === '/test') return next();
+  if (!isValidApiKey(apiKeys, apiKeyOf(req))) {
+    return sendError(res, new ScrapeError('UNAUTHORIZED', 'A valid API key is required. Send it in the X-API-Key header.'));
+  }
+  next();
+});
+
+// Aborted when the client disconnects before the response is finished, so its scrape stops
+const abortOnClose = res => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+const rateLimit = limiter => (req, res, next) => {
+  const decision = limiter.check(clientOf(req));
+  res.set('RateLimit-Remaining', String(decision.remaining));
+  if (!decision.allowed) {
+    res.set('Retry-After', String(decision.retryAfter));
+    return sendError(res, new ScrapeError('RATE_LIMITED', `Too many requests. Try again in ${decision.retryAfter} seconds.`));
+  }
+  next();
+};
+
+app.use('/api', rateLimit(apiLimiter));
+const scrapeRateLimit = rateLimit(scrapeLimiter);
+
 app.get('/api/test', (req, res) => {
   console.log('Test endpoint hit');
   res.json({ message: 'Server is running' });
 });
 
-app.post('/api/scrape', async (req, res) => {
+app.post('/api/scrape', scrapeRateLimit, async (req, res) => {
   console.log('Scrape endpoint hit');
   const { url } = req.body;
-  
-  if (!url) {
-    console.log('No URL provided');
-    return res.status(400).json({ error: 'URL is required' });
-  }
-
   console.log('Scraping URL:', url);
 
   try {
-    try {
-      new URL(url);
-    } catch (e) {
-      console.log('Invalid URL format:', url);
-      return res.status(400).json({ error: 'Invalid URL format' });
-    }
-
-    console.log('Fetching content from:', url);
-
-    const headers = {
-      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-      'Accept-Language': 'en-US,en;q=0.5',
-      'Connection': 'keep-alive',
-      'Upgrade-Insecure-Requests': '1',
-      'Cache-Control': 'no-cache',
-      'Pragma': 'no-cache'
-    };
-
-    // First try to get the page content
-    const response = await axios.get(url, { 
-      headers,
-      timeout: 10000,
-      validateStatus: function (status) {
-        return status >= 200 && status < 500;
-      }
-    });
-
-    console.log('Response status:', response.status);
+    res.json(await scrapeNews(url, {
+      ...scrapeOptions,
+      ...scrapeRequestOptions(req.body),
+      outboundSlot: outboundBudget.forClient(clientOf(req)),
+      signal: abortOnClose(res)
+    }));
+  } catch (error) {
+    console.error('Error scraping:', error);
+    sendError(res, error);
+  }
+});
 
-    if (response.status === 403) {
-      return res.status(403).json({ 
-        error: 'Access to this website is forbidden. The website might be blocking scraping attempts.' 
-      });
-    }
+// Same scrape, sent as newline-delimited JSON events while articles are parsed
+app.post('/api/scrape-stream', scrapeRateLimit, async (req, res) => {
+  console.log('Streaming scrape endpoint hit');
+  const { url } = req.body;
 
-    if (response.status !== 200) {
-      return res.status(response.status).json({ 
-        error: `Failed to fetch the website. Status code: ${response.status}` 
-      });
-    }
+  let requestOptions;
+  try {
+    requestOptions = scrapeRequestOptions(req.body);
+  } catch (error) {
+    return sendError(res, error);
+  }
 
-    const $ = cheerio.load(response.data);
-    const newsItems = [];
-    const articlePromises = [];
-
-    const websiteSelectors = {
-      'abs-cbn.com': {
-        article: [
-          '.news-item', 
-          '.article-item', 
-          '.news-card', 
-          '.story-card', 
-          'article',
-          '.news-list-item',
-          '.news-list__item',
-          '.news-list__article',
-          '.news-list__card',
-          '.news-list__story',
-          '.news-list__content',
-          '.news-list__wrapper',
-          '.news-list__container',
-          '.news-list__grid',
-          '.news-list__row',
-          '.news-list__col',
-          '.news-list__box',
-          '.news-list__panel',
-          '.news-list__block',
-          '.news-list__section'
-        ],
-        title: [
-          '.news-title', 
-          '.article-title', 
-          '.story-title', 
-          'h2', 
-          'h3', 
-          'h1',
-          '.news-list__title',
-          '.news-list__headline',
-          '.news-list__heading',
-          '.news-list__name',
-          '.news-list__label',
-          '.news-list__text',
-          '.news-list__content h1',
-          '.news-list__content h2',
-          '.news-list__content h3',
-          '.news-list__content h4',
-          '.news-list__content h5',
-          '.news-list__content h6'
-        ],
-        author: [
-          '.author', 
-          '.byline', 
-          '.writer', 
-          '.article-author',
-          'span[itemprop="author"]', 
-          'span.author', 
-          'div.author',
-          'meta[name="author"]', 
-          'meta[property="article:author"]',
-          '.news-list__author',
-          '.news-list__byline',
-          '.news-list__writer',
-          '.news-list__contributor',
-          '.news-list__reporter',
-          '.news-list__journalist'
-        ],
-        date: [
-          '.date', 
-          '.timestamp', 
-          '.article-date', 
-          '.publish-date',
-          'time', 
-          'span[itemprop="datePublished"]', 
-          'span.date',
-          'meta[name="pubdate"]', 
-          'meta[property="article:published_time"]',
-          '.news-list__date',
-          '.news-list__time',
-          '.news-list__timestamp',
-          '.news-list__published',
-          '.news-list__posted',
-          '.news-list__updated'
-        ],
-        image: [
-          'img.news-image', 
-          'img.article-image', 
-          'img.story-image', 
-          '.news-image img', 
-          '.article-image img', 
-          '.story-image img',
-          '.news-list__image img',
-          '.news-list__photo img',
-          '.news-list__thumbnail img',
-          '.news-list__media img',
-          '.news-list__picture img',
-          '.news-list__illustration img',
-          '.news-list__graphic img',
-          '.news-list__banner img',
-          '.news-list__cover img'
-        ]
-      },
-      'default': {
-        article: ['article', '.article', '.post', '.news-item', '.story', '.news-story', '.news-article', '.content', '.main-content'],
-        title: ['h1', 'h2', '.title', '.headline', '.story-title', '.article-title', 'h3'],
-        author: [
-          '.author', '.byline', '.writer', '.author-name', '.article-author', '.contributor',
-          'span[itemprop="author"]', 'span.author', 'div.author',
-          'meta[name="author"]', 'meta[property="article:author"]'
-        ],
-        date: [
-          '.date', '.published', '.timestamp', 'time', '.article-date', '.publish-date', '.posted-on',
-          'span[itemprop="datePublished"]', 'span.date',
-          'meta[name="pubdate"]', 'meta[property="article:published_time"]'
-        ],
-        image: ['img.featured-image', 'img.article-image', 'img.news-image', '.featured-image img', '.article-image img', '.news-image img', 'img[src*="news"]', 'img[src*="article"]']
-      }
-    };
-
-    const hostname = new URL(url).hostname;
-    const selectors = websiteSelectors[hostname] || websiteSelectors.default;
-
-    console.log('Using selectors for:', hostname);
-
-    const articleLinks = new Set();
-
-    selectors.article.forEach(articleSelector => {
-      $(articleSelector).each((_, element) => {
-        const $element = $(element);
-        const links = $element.find('a');
-        links.each((_, link) => {
-          const href = $(link).attr('href');
-          if (href) {
-            try {
-              const absoluteUrl = href.startsWith('http') ? href : new URL(href, url).href;
-              if (absoluteUrl.includes('/news/') || 
-                  absoluteUrl.includes('/article/') || 
-                  absoluteUrl.includes('/story/') ||
-                  absoluteUrl.match(/\d{4}\/\d{2}\/\d{2}/)) {
-                articleLinks.add(absoluteUrl);
-              }
-            } catch (e) {
-              console.log('Invalid article URL:', href);
-            }
-          }
-        });
-      });
-    });
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  const outboundSlot = outboundBudget.forClient(clientOf(req));
+  const signal = abortOnClose(res);
+  await streamScrapeNews(url, { ...scrapeOptions, ...requestOptions, outboundSlot, signal }, line => res.write(line));
+  res.end();
+});
 
-    if (articleLinks.size === 0) {
-      console.log('No articles found with selectors, trying general approach...');
-      $('a').each((_, link) => {
-        const href = $(link).attr('href');
-        if (href) {
-          try {
-            const absoluteUrl = href.startsWith('http') ? href : new URL(href, url).href;
-            if (absoluteUrl.includes('/news/') || 
-                absoluteUrl.includes('/article/') || 
-                absoluteUrl.includes('/story/') ||
-                absoluteUrl.match(/\d{4}\/\d{2}\/\d{2}/)) {
-              articleLinks.add(absoluteUrl);
-            }
-          } catch (e) {
-            console.log('Invalid article URL:', href);
-          }
-        }
-      });
-    }
+// Stored articles, most recently seen first
+app.get('/api/articles', (req, res) => {
+  const { limit, offset, source, q } = req.query;
+  res.json(articleStore.list({
+    limit: Number(limit) || undefined,
+    offset: Number(offset) || undefined,
+    source: source || undefined,
+    search: q || undefined
+  }));
+});
 
-    console.log('Found', articleLinks.size, 'article links');
-
-    for (const articleUrl of articleLinks) {
-      try {
-        console.log('Fetching article:', articleUrl);
-        const articleResponse = await axios.get(articleUrl, { 
-          headers,
-          timeout: 10000,
-          validateStatus: function (status) {
-            return status >= 200 && status < 500;
-          }
-        });
-
-        if (articleResponse.status === 200) {
-          const $article = cheerio.load(articleResponse.data);
-          let title = '';
-          let author = '';
-          let date = '';
-          let imageUrl = '';
-          let content = '';
-
-          // Extract title
-          for (const selector of selectors.title) {
-            const titleElement = $article(selector).first();
-            if (titleElement.length) {
-              title = titleElement.text().trim();
-              break;
-            }
-          }
-
-          // Extract author
-          for (const selector of selectors.author) {
-            const authorElement = $article(selector).first();
-            if (authorElement.length) {
-              author = authorElement.text().trim();
-              break;
-            }
-          }
-
-          // Extract date
-          for (const selector of selectors.date) {
-            const dateElement = $article(selector).first();
-            if (dateElement.length) {
-              date = dateElement.text().trim();
-              break;
-            }
-          }
-
-          // Extract content
-          const contentSelectors = [
-            'article .content',
-            'article .article-content',
-            'article .story-content',
-            'article .post-content',
-            'article .entry-content',
-            '.article-body',
-            '.story-body',
-            '.post-body',
-            '.entry-body',
-            '[itemprop="articleBody"]',
-            '.article__content',
-            '.story__content',
-            '.post__content',
-            '.entry__content'
-          ];
-
-          for (const selector of contentSelectors) {
-            const contentElement = $article(selector).first();
-            if (contentElement.length) {
-              // Remove unwanted elements
-              contentElement.find('script, style, iframe, .advertisement, .ad, .social-share, .related-articles').remove();
-              content = contentElement.text().trim();
-              break;
-            }
-          }
-
-          // If no content found with selectors, try to get paragraphs
-          if (!content) {
-            const paragraphs = $article('article p, .article p, .story p, .post p, .entry p');
-            if (paragraphs.length) {
-              content = Array.from(paragraphs)
-                .map(p => $article(p).text().trim())
-                .filter(text => text.length > 0)
-                .join('\n\n');
-            }
-          }
-
-          // Extract image
-          selectors.image.forEach(selector => {
-            const img = $article(selector).first();
-            if (img.length) {
-              const possibleSrcs = [
-                img.attr('src'),
-                img.attr('data-src'),
-                img.attr('data-lazy-src'),
-                img.attr('data-original'),
-                img.attr('data-url'),
-                img.attr('data-srcset')?.split(',')[0]?.trim().split(' ')[0]
-              ];
-
-              for (const src of possibleSrcs) {
-                if (src && !src.startsWith('data:') && !src.includes('svg')) {
-                  try {
-                    const absoluteUrl = src.startsWith('http') ? src : new URL(src, articleUrl).href;
-                    if (absoluteUrl.match(/\.(jpg|jpeg|png|gif|webp)(\?.*)?$/i)) {
-                      imageUrl = absoluteUrl;
-                      break;
-                    }
-                  } catch (e) {
-                    console.log('Invalid image URL:', src);
-                  }
-                }
-              }
-            }
-          });
-
-          if (!imageUrl) {
-            const imgs = $article('img');
-            for (let i = 0; i < imgs.length; i++) {
-              const img = imgs[i];
-              const possibleSrcs = [
-                $article(img).attr('src'),
-                $article(img).attr('data-src'),
-                $article(img).attr('data-lazy-src'),
-                $article(img).attr('data-original'),
-                $article(img).attr('data-url'),
-                $article(img).attr('data-srcset')?.split(',')[0]?.trim().split(' ')[0]
-              ];
-
-              for (const src of possibleSrcs) {
-                if (src && !src.startsWith('data:') && !src.includes('svg')) {
-                  try {
-                    const absoluteUrl = src.startsWith('http') ? src : new URL(src, articleUrl).href;
-                    if (absoluteUrl.match(/\.(jpg|jpeg|png|gif|webp)(\?.*)?$/i)) {
-                      imageUrl = absoluteUrl;
-                      break;
-                    }
-                  } catch (e) {
-                    console.log('Invalid image URL:', src);
-                  }
-                }
-              }
-              if (imageUrl) break;
-            }
-          }
-
-          let formattedDate = '';
-          if (date) {
-            try {
-              const dateObj = new Date(date);
-              if (!isNaN(dateObj.getTime())) {
-                formattedDate = dateObj.toISOString();
-              } else {
-                const dateMatch = date.match(/(\d{4}[-/]\d{1,2}[-/]\d{1,2})|(\d{1,2}[-/]\d{1,2}[-/]\d{4})/);
-                if (dateMatch) {
-                  const extractedDate = new Date(dateMatch[0]);
-                  if (!isNaN(extractedDate.getTime())) {
-                    formattedDate = extractedDate.toISOString();
-                  }
-                }
-              }
-            } catch (e) {
-              console.log('Error formatting date:', date);
-            }
-          }
-
-          if (title) {
-            newsItems.push({
-              title,
-              author: author || 'Unknown',
-              date: formattedDate || new Date().toISOString(),
-              source: hostname,
-              url: articleUrl,
-              imageUrl: imageUrl || null,
-              content: content || null
-            });
-          }
-        }
-      } catch (error) {
-        console.error('Error fetching article:', error);
-      }
-    }
+// Scheduled crawl jobs and their last outcome
+app.get('/api/jobs', (req, res) => {
+  res.json({ jobs: scheduler.status() });
+});
 
-    console.log('Found', newsItems.length, 'articles');
+app.post('/api/jobs/:id/run', scrapeRateLimit, (req, res) => {
+  if (!scheduler.status().some(job => job.id === req.params.id)) {
+    return sendError(res, new ScrapeError('NOT_FOUND', `There is no job called ${req.params.id}.`));
+  }
+  if (!scheduler.runNow(req.params.id)) {
+    return sendError(res, new ScrapeError('JOB_RUNNING', 'That job is already running.'));
+  }
+  res.status(202).json({ job: scheduler.status().find(job => job.id === req.params.id) });
+});
 
-    if (newsItems.length === 0) {
-      return res.status(404).json({ 
-        error: 'No news articles found. The website might use a different structure or dynamic loading.' 
-      });
+// Image proxy: /api/image?url=<image URL>&w=<width>
+app.get('/api/image', async (req, res) => {
+  try {
+    const thumbnail = await thumbnailer.get(String(req.query.url || ''), thumbnailWidth(req.query.w), req.get('Accept'));
+    res.set({
+      'Content-Type': thumbnail.contentType,
+      'Cache-Control': 'public, max-age=86400',
+      'ETag': thumbnail.etag,
+      'Vary': 'Accept'
+    });
+    if (req.get('If-None-Match') === thumbnail.etag) {
+      return res.status(304).end();
     }
-
-    res.json({ news: newsItems });
+    res.send(thumbnail.body);
   } catch (error) {
-    console.error('Error scraping:', error);
-    if (error.response) {
-      res.status(error.response.status).json({ 
-        error: `Server responded with status ${error.response.status}` 
-      });
-    } else if (error.request) {
-      res.status(500).json({ 
-        error: 'No response received from the website. Please check the URL and try again.' 
-      });
-    } else {
-      res.status(500).json({ 
-        error: 'Error setting up the request. Please try again.' 
-      });
-    }
+    console.error('Image proxy error:', error.message);
+    sendError(res, error);
   }
 });
 
 // --- NEW ENDPOINT FOR SCRAPING A SINGLE ARTICLE ---
-app.post('/api/article', async (req, res) => {
+app.post('/api/article', scrapeRateLimit, async (req, res) => {
   const { url } = req.body;
-  if (!url) {
-    return res.status(400).json({ error: 'URL is required' });
-  }
 
   try {
-    const headers = {
-      'User-Agent': 'Mozilla/5.0',
-      'Accept': 'text/html',
-    };
-    // tonn
-    const response = await axios.get(url, { headers, timeout: 10000 });
-    if (response.status !== 200) {
-      return res.status(response.status).json({ error: 'Failed to fetch article' });
-    }
-    const $ = cheerio.load(response.data);
-
-    // Try to extract main content
-    const title = $('h1').first().text().trim() || $('title').text().trim();
-    const author = $('[itemprop="author"]').first().text().trim() || $('.author').first().text().trim() || '';
-    const date = $('[itemprop="datePublished"]').first().text().trim() || $('.date').first().text().trim() || '';
-    const imageUrl = $('img').first().attr('src') || '';
-    // Try to get the main article body
-    let body = '';
-    if ($('article').length) {
-      body = $('article').text().trim();
-    } else {
-      body = $('p').map((i, el) => $(el).text()).get().join('\n\n').trim();
-    }
-
-    res.json({
-      title,
-      author,
-      date,
-      imageUrl,
-      body,
-      url
-    });
+    res.json(await scrapeArticle(url, { outboundSlot: outboundBudget.forClient(clientOf(req)) }));
   } catch (error) {
-    res.status(500).json({ error: 'Failed to scrape article.' });
+    sendError(res, error);
   }
 });
 
 app.use((err, req, res, next) => {
+  // express.json() could not parse the body
+  if (err.type === 'entity.parse.failed') {
+    return sendError(res, new ScrapeError('INVALID_BODY', 'The request body is not valid JSON.'));
+  }
   console.error(err.stack);
-  res.status(500).json({ error: 'Something broke!' });
+  sendError(res, new ScrapeError('INTERNAL_ERROR', 'Something broke!'));
 });
 
 app.listen(port, () => {
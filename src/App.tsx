@@ -14,6 +14,7 @@ import {
   FormControl,
   InputLabel,
   Alert,
+  AlertTitle,
   Snackbar,
   Chip,
   Paper,
@@ -33,7 +34,14 @@ import {
   useMediaQuery,
   ThemeProvider,
   createTheme,
-  CssBaseline
+  CssBaseline,
+  LinearProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails
 } from '@mui/material';
 import axios from 'axios';
 import LinkIcon from '@mui/icons-material/Link';
@@ -50,31 +58,164 @@ import Tooltip from '@mui/material/Tooltip';
 import GitHubIcon from '@mui/icons-material/GitHub';
 import FacebookIcon from '@mui/icons-material/Facebook';
 import LanguageIcon from '@mui/icons-material/Language';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import HistoryIcon from '@mui/icons-material/History';
+import { newsSources } from './scraper/sources';
+import type {
+  ApiErrorBody, AppliedProfile, ArticleDiagnostic, ArticleField, ArticleHistory, ErrorCode, NewsItem, RenderMode,
+  ScrapeDiagnostics, ScrapeEvent, StoredArticle, UnavailableHost
+} from './scraper/types';
 
 const API_BASE_URL = process.env.NODE_ENV === 'production' 
   ? '/.netlify/functions' 
   : 'http://localhost:5000/api';
 
-interface NewsItem {
-  title: string;
-  author: string;
-  date: string;
-  source: string;
-  url: string;
-  imageUrl: string | null;
-  content?: string;
-}
+// Sent when the server is started with API_KEYS
+const API_KEY = process.env.REACT_APP_API_KEY;
+const apiHeaders: Record<string, string> = API_KEY ? { 'X-API-Key': API_KEY } : {};
 
-interface ApiError {
-  response?: {
-    data?: {
-      error?: string;
-    };
-  };
-  request?: any;
+// Images go through the server's resizing proxy; the original is the fallback if it fails
+const thumbnailUrl = (url: string, width: number) =>
+  `${API_BASE_URL}/image?url=${encodeURIComponent(url)}&w=${width}${API_KEY ? `&key=${encodeURIComponent(API_KEY)}` : ''}`;
+
+const showOriginalImage = (url: string) => (event: React.SyntheticEvent<HTMLImageElement>) => {
+  const img = event.currentTarget;
+  if (img.src === url) return;
+  img.removeAttribute('srcset');
+  img.src = url;
+};
+
+// The error box: the server's message, with a title and a next step when the code is known
+interface ErrorNotice {
   message: string;
+  title?: string;
+  nextStep?: string;
 }
 
+// What each API error code means for the user, and what to try next
+const errorHelp: Record<ErrorCode, { title: string; nextStep: string }> = {
+  INVALID_URL: {
+    title: 'That URL cannot be scraped',
+    nextStep: 'Enter a full web address starting with http:// or https://, such as https://www.bbc.com/news.'
+  },
+  INVALID_OPTION: {
+    title: 'Invalid scrape settings',
+    nextStep: 'Reload the page to reset the page and rendering options, then try again.'
+  },
+  INVALID_BODY: {
+    title: 'Malformed request',
+    nextStep: 'Reload the page and try again.'
+  },
+  UNAUTHORIZED: {
+    title: 'API key missing or wrong',
+    nextStep: 'Set REACT_APP_API_KEY to one of the server\'s API_KEYS and restart the app.'
+  },
+  NOT_FOUND: {
+    title: 'Not found',
+    nextStep: 'Check the address and try again.'
+  },
+  METHOD_NOT_ALLOWED: {
+    title: 'Request not supported',
+    nextStep: 'The app and the server may be different versions; reload the page.'
+  },
+  JOB_RUNNING: {
+    title: 'Already running',
+    nextStep: 'Wait for the current run to finish, then try again.'
+  },
+  CANCELLED: {
+    title: 'Scrape cancelled',
+    nextStep: 'Start the scrape again.'
+  },
+  RATE_LIMITED: {
+    title: 'Too many requests',
+    nextStep: 'Wait a minute before scraping again.'
+  },
+  BLOCKED_ADDRESS: {
+    title: 'Private network address',
+    nextStep: 'The scraper only reaches public websites. Enter the URL of a public news site.'
+  },
+  ROBOTS_DISALLOWED: {
+    title: 'The site does not allow scraping',
+    nextStep: 'Try the site\'s RSS feed or another news source.'
+  },
+  RENDER_UNAVAILABLE: {
+    title: 'JavaScript rendering is not available',
+    nextStep: 'Set Render JavaScript to Never and try again.'
+  },
+  BLOCKED_BY_SITE: {
+    title: 'The site refused the request',
+    nextStep: 'Some sites block scrapers. Try the site\'s RSS feed or another news source.'
+  },
+  UPSTREAM_STATUS: {
+    title: 'The site returned an error',
+    nextStep: 'Check that the URL opens in your browser. If it does, try again in a few minutes.'
+  },
+  NO_RESPONSE: {
+    title: 'The site did not respond',
+    nextStep: 'Check the URL for typos and that the site is online.'
+  },
+  TIMEOUT: {
+    title: 'The site was too slow',
+    nextStep: 'Try again, or scrape fewer pages.'
+  },
+  RESPONSE_TOO_LARGE: {
+    title: 'Page too large',
+    nextStep: 'Try a section or listing page instead.'
+  },
+  UNSUPPORTED_CONTENT: {
+    title: 'Not a web page',
+    nextStep: 'The URL may be a file download. Enter the URL of a news page or feed.'
+  },
+  RENDER_FAILED: {
+    title: 'The page could not be rendered',
+    nextStep: 'Set Render JavaScript to Never and try again.'
+  },
+  HOST_UNAVAILABLE: {
+    title: 'Site paused after repeated failures',
+    nextStep: 'Wait until the pause ends, then try again.'
+  },
+  NO_ARTICLES: {
+    title: 'No articles found',
+    nextStep: 'Try a news section page, scrape more pages, or set Render JavaScript to Always.'
+  },
+  INTERNAL_ERROR: {
+    title: 'Something went wrong',
+    nextStep: 'Try again. If it keeps happening, check the server log.'
+  }
+};
+
+// Servers older than the app may send codes it does not know; those keep just the message
+const errorNotice = ({ error, code }: Partial<ApiErrorBody>): ErrorNotice => ({
+  message: error || 'Failed to scrape news. Please try a different URL.',
+  ...(code && errorHelp[code])
+});
+
+// Dates read from "3 hours ago" are approximate; pages without a date say so
+const displayDate = (item: NewsItem, options?: Intl.DateTimeFormatOptions) => {
+  if (!item.date) return 'Date unknown';
+  const text = new Date(item.date).toLocaleDateString(undefined, options);
+  return item.dateConfidence === 'relative' ? `${text} (approx.)` : text;
+};
+
+// Older items and stored articles may only carry the joined author string
+const authorsOf = (item: NewsItem) => item.authors || (item.author === 'Unknown' ? [] : item.author.split(', '));
+
+// Undated articles sort last
+const dateValue = (item: NewsItem) => (item.date ? new Date(item.date).getTime() : 0);
+
+// Scrape report helpers: a CSS selector is shown as itself, anything else by its source
+const fieldLabels: Record<ArticleField, string> = { title: 'Title', author: 'Author', date: 'Date', imageUrl: 'Image', content: 'Text' };
+const describeFields = (fields: ArticleDiagnostic['fields'] = {}) => (Object.keys(fields) as ArticleField[])
+  .map(field => `${fieldLabels[field]}: ${fields[field]?.selector || fields[field]?.source}`)
+  .join(' · ');
+const outcomeColors: Record<ArticleDiagnostic['outcome'], 'success' | 'warning' | 'error' | 'default'> = {
+  extracted: 'success',
+  discarded: 'warning',
+  failed: 'error',
+  skipped: 'default'
+};
+const seconds = (ms?: number) => (ms === undefined ? '–' : `${(ms / 1000).toFixed(1)} s`);
+
 // Extend the Theme type to include our custom properties
 declare module '@mui/material/styles' {
   interface Theme {
@@ -207,48 +348,30 @@ function App() {
   const [news, setNews] = useState<NewsItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [filterKeyword, setFilterKeyword] = useState('');
+  const [authorFilter, setAuthorFilter] = useState('');
   const [sortBy, setSortBy] = useState<'date' | 'title'>('date');
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<ErrorNotice | null>(null);
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [unavailableHosts, setUnavailableHosts] = useState<UnavailableHost[]>([]);
+  const [report, setReport] = useState<ScrapeDiagnostics | null>(null);
+  const [appliedProfile, setAppliedProfile] = useState<AppliedProfile | null>(null);
+  const [progress, setProgress] = useState({ pages: 0, found: 0, fetched: 0, failed: 0, rendered: 0 });
+  const [maxPages, setMaxPages] = useState(1);
+  // '' leaves rendering to the site profile
+  const [renderMode, setRenderMode] = useState<RenderMode | ''>('');
   const [serverStatus, setServerStatus] = useState<'checking' | 'online' | 'offline'>('checking');
   const [selectedNews, setSelectedNews] = useState<NewsItem | null>(null);
   const [isPopupOpen, setIsPopupOpen] = useState(false);
   const [isBookmarked, setIsBookmarked] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [history, setHistory] = useState<StoredArticle[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historySearch, setHistorySearch] = useState('');
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState('');
   const theme = useTheme();
   const fullScreen = useMediaQuery(theme.breakpoints.down('md'));
 
-  const newsUrls = [
-    {
-      name: 'ABS-CBN News',
-      url: 'https://news.abs-cbn.com/',
-      description: 'Philippine news and current events'
-    },
-    {
-      name: 'GMA News',
-      url: 'https://www.gmanetwork.com/news/',
-      description: 'Latest Philippine news'
-    },
-    {
-      name: 'Rappler',
-      url: 'https://www.rappler.com/',
-      description: 'Philippine news and analysis'
-    },
-    {
-      name: 'Inquirer',
-      url: 'https://newsinfo.inquirer.net/',
-      description: 'Philippine daily news'
-    },
-    {
-      name: 'Manila Bulletin',
-      url: 'https://mb.com.ph/',
-      description: 'Philippine news and information'
-    },
-    {
-      name: 'CNN Philippines',
-      url: 'https://www.cnnphilippines.com/',
-      description: 'Latest news and updates'
-    }
-  ];
-
   useEffect(() => {
     // Check if server is running
     const checkServer = async () => {
@@ -260,59 +383,148 @@ function App() {
       } catch (error) {
         console.error('Server check failed:', error);
         setServerStatus('offline');
-        setError('Server is offline. Please make sure the server is running on port 5000.');
+        setError({ message: 'Server is offline. Please make sure the server is running on port 5000.' });
       }
     };
 
     checkServer();
   }, []);
 
+  const handleScrapeEvent = (event: ScrapeEvent) => {
+    switch (event.type) {
+      case 'profile':
+        setAppliedProfile({ name: event.name, matchedHost: event.matchedHost });
+        break;
+      case 'feed':
+        setProgress({ pages: 0, found: event.total, fetched: event.total, failed: 0, rendered: 0 });
+        break;
+      case 'page':
+        setProgress(prev => ({ ...prev, pages: event.page }));
+        break;
+      case 'render':
+        setProgress(prev => ({ ...prev, rendered: prev.rendered + 1 }));
+        break;
+      case 'links':
+        setProgress(prev => ({ ...prev, found: event.total }));
+        break;
+      case 'fetched':
+        setProgress(prev => ({ ...prev, fetched: prev.fetched + 1 }));
+        break;
+      case 'failed':
+        setProgress(prev => ({ ...prev, failed: prev.failed + 1 }));
+        break;
+      case 'article':
+        setNews(prev => [...prev, event.item]);
+        break;
+      case 'done':
+        setSkippedCount(event.skipped.length);
+        setUnavailableHosts(event.unavailableHosts || []);
+        setReport(event.diagnostics || null);
+        break;
+      case 'error':
+        setError(errorNotice(event));
+        setReport(event.diagnostics || null);
+        break;
+    }
+  };
+
   const scrapeNews = async () => {
     if (!url) {
-      setError('Please enter a website URL');
+      setError({ message: 'Please enter a website URL' });
       return;
     }
 
     setLoading(true);
-    setError('');
+    setError(null);
     setNews([]);
+    setAuthorFilter('');
+    setSkippedCount(0);
+    setUnavailableHosts([]);
+    setReport(null);
+    setAppliedProfile(null);
+    setProgress({ pages: 0, found: 0, fetched: 0, failed: 0, rendered: 0 });
 
     try {
-      console.log('Sending request to:', `${API_BASE_URL}/scrape`);
-      const response = await axios.post(`${API_BASE_URL}/scrape`, { url });
-      console.log('Received response:', response.data);
-      
-      if (response.data.news && response.data.news.length > 0) {
-        setNews(response.data.news);
-      } else {
-        setError('No news articles found. The website might use a different structure or dynamic loading.');
+      console.log('Sending request to:', `${API_BASE_URL}/scrape-stream`);
+      const response = await fetch(`${API_BASE_URL}/scrape-stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...apiHeaders },
+        body: JSON.stringify({ url, includeHtml: true, maxPages, render: renderMode || undefined })
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        console.error('Error response:', data);
+        setError(errorNotice(data));
+        setReport(data.diagnostics || null);
+        return;
+      }
+
+      // The server sends one JSON event per line as articles are parsed
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        lines
+          .filter(line => line.trim())
+          .forEach(line => handleScrapeEvent(JSON.parse(line)));
       }
     } catch (error) {
       console.error('Error scraping news:', error);
-      const apiError = error as ApiError;
-      
-      if (apiError.response) {
-        console.error('Error response:', apiError.response.data);
-        setError(apiError.response.data?.error || 'Failed to scrape news. Please try a different URL.');
-      } else if (apiError.request) {
-        setError('No response from server. Please make sure the server is running.');
+      if (error instanceof TypeError) {
+        setError({ message: 'No response from server. Please make sure the server is running.' });
       } else {
-        setError('Error: ' + apiError.message);
+        setError({ message: 'Error: ' + (error as Error).message });
       }
     } finally {
       setLoading(false);
     }
   };
 
+  // Stored articles come in pages of 50; offset 0 starts a fresh list
+  const loadHistory = async (offset = 0) => {
+    setHistoryLoading(true);
+    setHistoryError('');
+    try {
+      const response = await axios.get<ArticleHistory>(`${API_BASE_URL}/articles`, {
+        headers: apiHeaders,
+        params: { limit: 50, offset, q: historySearch || undefined }
+      });
+      setHistory(prev => offset === 0 ? response.data.articles : [...prev, ...response.data.articles]);
+      setHistoryTotal(response.data.total);
+    } catch (error) {
+      console.error('Error loading history:', error);
+      setHistoryError('Article history is only available when the scraper server keeps an article store.');
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const openHistory = () => {
+    setIsHistoryOpen(true);
+    loadHistory();
+  };
+
+  // Every author in the results, most prolific first
+  const authorCounts = new Map<string, number>();
+  news.forEach(item => authorsOf(item).forEach(author => authorCounts.set(author, (authorCounts.get(author) || 0) + 1)));
+  const authorOptions = Array.from(authorCounts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
   const filteredAndSortedNews = news
     .filter(item => 
       filterKeyword === '' || 
       item.title.toLowerCase().includes(filterKeyword.toLowerCase()) ||
       item.author.toLowerCase().includes(filterKeyword.toLowerCase())
     )
+    .filter(item => authorFilter === '' || authorsOf(item).includes(authorFilter))
     .sort((a, b) => {
       if (sortBy === 'date') {
-        return new Date(b.date).getTime() - new Date(a.date).getTime();
+        return dateValue(b) - dateValue(a);
       }
       return a.title.localeCompare(b.title);
     });
@@ -351,6 +563,14 @@ function App() {
             </Box>
             <Box sx={{ flexGrow: 1 }} />
             <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+              <Button
+                variant="text"
+                startIcon={<HistoryIcon />}
+                onClick={openHistory}
+                sx={{ color: customTheme.custom.text.secondary }}
+              >
+                History
+              </Button>
               <Button
                 variant="text"
                 startIcon={<GitHubIcon />}
@@ -553,7 +773,7 @@ function App() {
                   Quick Links
                 </Typography>
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-                  {newsUrls.map((newsUrl, index) => (
+                  {newsSources.map((newsUrl, index) => (
                     <Button
                       key={index}
                       variant="outlined"
@@ -641,8 +861,36 @@ function App() {
                       {loading ? <CircularProgress size={24} color="inherit" /> : 'Scrape'}
                     </Button>
                   </Box>
+                  {appliedProfile && (
+                    <Chip
+                      size="small"
+                      label={appliedProfile.matchedHost
+                        ? `Site profile: ${appliedProfile.name} (${appliedProfile.matchedHost})`
+                        : 'Site profile: default'}
+                      sx={{ mt: 2, bgcolor: 'rgba(37, 99, 235, 0.08)', color: customTheme.custom.primary }}
+                    />
+                  )}
                 </Box>
 
+                {/* Scrape Progress */}
+                {loading && (
+                  <Box sx={{ mb: 4 }}>
+                    <LinearProgress
+                      variant={progress.found > 0 ? 'determinate' : 'indeterminate'}
+                      value={progress.found > 0 ? ((progress.fetched + progress.failed) / progress.found) * 100 : 0}
+                      sx={{ height: 6, borderRadius: 3 }}
+                    />
+                    <Typography variant="body2" sx={{ mt: 1, color: customTheme.custom.text.secondary }}>
+                      {progress.found > 0
+                        ? `Fetched ${progress.fetched + progress.failed} of ${progress.found} links • ${news.length} articles • ${progress.failed} failed` +
+                          (progress.rendered > 0 ? ` • ${progress.rendered} rendered` : '')
+                        : progress.pages > 1
+                          ? `Looking for article links on page ${progress.pages}...`
+                          : 'Looking for article links...'}
+                    </Typography>
+                  </Box>
+                )}
+
                 {/* Filter and Sort Controls */}
                 <Box sx={{ 
                   display: 'flex', 
@@ -690,6 +938,65 @@ function App() {
                       <MenuItem value="title">Title</MenuItem>
                     </Select>
                   </FormControl>
+                  <FormControl size="small" sx={{ minWidth: 200 }}>
+                    <InputLabel shrink>Author</InputLabel>
+                    <Select
+                      displayEmpty
+                      notched
+                      value={authorFilter}
+                      label="Author"
+                      onChange={(e) => setAuthorFilter(e.target.value)}
+                      startAdornment={
+                        <InputAdornment position="start">
+                          <FilterListIcon sx={{ color: customTheme.custom.text.secondary }} />
+                        </InputAdornment>
+                      }
+                      sx={{
+                        borderRadius: 2,
+                        backgroundColor: 'white'
+                      }}
+                    >
+                      <MenuItem value="">All authors</MenuItem>
+                      {authorOptions.map(([author, count]) => (
+                        <MenuItem key={author} value={author}>{author} ({count})</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <FormControl size="small" sx={{ minWidth: 150 }}>
+                    <InputLabel>Listing pages</InputLabel>
+                    <Select
+                      value={maxPages}
+                      label="Listing pages"
+                      onChange={(e) => setMaxPages(Number(e.target.value))}
+                      sx={{
+                        borderRadius: 2,
+                        backgroundColor: 'white'
+                      }}
+                    >
+                      {[1, 2, 3, 5, 10].map(pages => (
+                        <MenuItem key={pages} value={pages}>{pages === 1 ? '1 page' : `${pages} pages`}</MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <FormControl size="small" sx={{ minWidth: 170 }}>
+                    <InputLabel shrink>Render JavaScript</InputLabel>
+                    <Select
+                      displayEmpty
+                      notched
+                      value={renderMode}
+                      label="Render JavaScript"
+                      onChange={(e) => setRenderMode(e.target.value as RenderMode | '')}
+                      sx={{
+                        borderRadius: 2,
+                        backgroundColor: 'white'
+                      }}
+                    >
+                      <MenuItem value="">Site default</MenuItem>
+                      <MenuItem value="auto">When needed</MenuItem>
+                      <MenuItem value="always">Always</MenuItem>
+                      <MenuItem value="never">Never</MenuItem>
+                    </Select>
+                  </FormControl>
                 </Box>
 
                 {/* News Grid */}
@@ -711,8 +1018,12 @@ function App() {
                           <CardMedia
                             component="img"
                             height="200"
-                            image={item.imageUrl}
-                            alt={item.title}
+                            image={thumbnailUrl(item.imageUrl, 480)}
+                            srcSet={`${thumbnailUrl(item.imageUrl, 480)} 480w, ${thumbnailUrl(item.imageUrl, 800)} 800w`}
+                            sizes="(max-width: 600px) 100vw, 400px"
+                            loading="lazy"
+                            onError={showOriginalImage(item.imageUrl)}
+                            alt={item.image?.alt || item.title}
                             sx={{
                               objectFit: 'cover',
                               borderTopLeftRadius: 12,
@@ -732,8 +1043,8 @@ function App() {
                           }}>
                             {item.title}
                           </Typography>
-                          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                            {item.author} • {new Date(item.date).toLocaleDateString()}
+                          <Typography variant="body2" sx={{ mb: 2, color: customTheme.custom.text.secondary }}>
+                            {item.author} • {displayDate(item)}
                           </Typography>
                           <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
                             Source: {item.source}
@@ -761,6 +1072,32 @@ function App() {
                   ))}
                 </Grid>
 
+                {skippedCount > 0 && (
+                  <Alert 
+                    severity="info" 
+                    sx={{ 
+                      mt: 3,
+                      borderRadius: 2
+                    }}
+                  >
+                    {skippedCount} more {skippedCount === 1 ? 'article was' : 'articles were'} skipped because the scrape ran out of time.
+                  </Alert>
+                )}
+
+                {unavailableHosts.length > 0 && (
+                  <Alert 
+                    severity="warning" 
+                    sx={{ 
+                      mt: 3,
+                      borderRadius: 2
+                    }}
+                  >
+                    {unavailableHosts.map(({ host, retryAt }) =>
+                      `${host} kept failing, so the scraper stopped asking it until ${new Date(retryAt).toLocaleTimeString()}.`
+                    ).join(' ')} Some articles may be missing; try again later.
+                  </Alert>
+                )}
+
                 {error && (
                   <Alert 
                     severity="error" 
@@ -772,9 +1109,93 @@ function App() {
                       }
                     }}
                   >
-                    {error}
+                    {error.title && <AlertTitle>{error.title}</AlertTitle>}
+                    {error.message}
+                    {error.nextStep && (
+                      <Typography variant="body2" sx={{ mt: 1, fontWeight: 500 }}>
+                        {error.nextStep}
+                      </Typography>
+                    )}
                   </Alert>
                 )}
+
+                {report && (
+                  <Accordion
+                    disableGutters
+                    elevation={0}
+                    sx={{
+                      mt: 3,
+                      borderRadius: 2,
+                      border: `1px solid ${customTheme.custom.divider}`,
+                      '&:before': { display: 'none' }
+                    }}
+                  >
+                    <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                      <Box>
+                        <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                          Scrape report
+                        </Typography>
+                        <Typography variant="body2" sx={{ color: customTheme.custom.text.secondary }}>
+                          {report.via === 'feed'
+                            ? `${report.articlesExtracted} articles from a feed`
+                            : `${report.linksDiscovered} links found · ${report.linksFollowed} fetched · ${report.articlesExtracted} articles extracted`}
+                          {` · ${seconds(report.timings.totalMs)}`}
+                        </Typography>
+                      </Box>
+                    </AccordionSummary>
+                    <AccordionDetails>
+                      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+                        {report.pageStatus !== undefined && <Chip size="small" label={`Page: HTTP ${report.pageStatus}`} />}
+                        {report.feedUrl && <Chip size="small" label={`Feed: ${report.feedUrl}`} />}
+                        <Chip size="small" label={`Listing pages: ${report.listingPages}`} />
+                        <Chip size="small" label={`Sitemap entries: ${report.sitemapEntries}`} />
+                        <Chip size="small" label={`Links rejected: ${report.linksRejected}`} />
+                        {Object.entries(report.statuses).map(([status, count]) => (
+                          <Chip
+                            key={status}
+                            size="small"
+                            variant="outlined"
+                            color={status === '200' ? 'success' : 'error'}
+                            label={`${status === 'error' ? 'No response' : `HTTP ${status}`} × ${count}`}
+                          />
+                        ))}
+                      </Box>
+                      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                        Page {seconds(report.timings.pageMs)} · Feed lookup {seconds(report.timings.feedMs)} ·
+                        Sitemaps {seconds(report.timings.sitemapsMs)} · Links {seconds(report.timings.listingMs)} ·
+                        Articles {seconds(report.timings.articlesMs)}
+                      </Typography>
+                      {report.articles.length > 0 && (
+                        <List dense disablePadding sx={{ maxHeight: 360, overflowY: 'auto' }}>
+                          {report.articles.map(article => (
+                            <Box
+                              key={article.url}
+                              sx={{ py: 1, borderTop: `1px solid ${customTheme.custom.divider}`, display: 'flex', gap: 1.5, alignItems: 'flex-start' }}
+                            >
+                              <Chip
+                                size="small"
+                                color={outcomeColors[article.outcome]}
+                                label={article.status ? `${article.outcome} · ${article.status}` : article.outcome}
+                                sx={{ minWidth: 96 }}
+                              />
+                              <ListItemText
+                                primary={article.url}
+                                secondary={[
+                                  article.reason,
+                                  describeFields(article.fields),
+                                  article.cached ? 'from cache' : '',
+                                  article.rendered ? 'rendered' : '',
+                                  article.ms !== undefined ? seconds(article.ms) : ''
+                                ].filter(Boolean).join(' · ')}
+                                primaryTypographyProps={{ variant: 'body2', sx: { wordBreak: 'break-all' } }}
+                              />
+                            </Box>
+                          ))}
+                        </List>
+                      )}
+                    </AccordionDetails>
+                  </Accordion>
+                )}
               </Paper>
             </Grid>
           </Grid>
@@ -860,7 +1281,7 @@ function App() {
                       gap: 1
                     }}
                   >
-                    {new Date(selectedNews.date).toLocaleDateString(undefined, {
+                    {displayDate(selectedNews, {
                       year: 'numeric',
                       month: 'long',
                       day: 'numeric'
@@ -877,8 +1298,9 @@ function App() {
                     overflow: 'hidden'
                   }}>
                     <img 
-                      src={selectedNews.imageUrl} 
-                      alt={selectedNews.title}
+                      src={thumbnailUrl(selectedNews.imageUrl, 1200)}
+                      onError={showOriginalImage(selectedNews.imageUrl)}
+                      alt={selectedNews.image?.alt || selectedNews.title}
                       style={{
                         width: '100%',
                         height: '100%',
@@ -889,17 +1311,39 @@ function App() {
                   </Box>
                 )}
                 <Box sx={{ p: 3 }}>
-                  <Typography 
-                    variant="body1" 
-                    sx={{ 
-                      mb: 3,
-                      lineHeight: 1.8,
-                      fontSize: '1.1rem',
-                      color: customTheme.custom.text.primary
-                    }}
-                  >
-                    {selectedNews.content || 'Content not available'}
-                  </Typography>
+                  {selectedNews.contentHtml ? (
+                    // Markup is rebuilt server-side from a tag whitelist
+                    <Box
+                      sx={{
+                        mb: 3,
+                        lineHeight: 1.8,
+                        fontSize: '1.1rem',
+                        color: customTheme.custom.text.primary,
+                        '& p': { mt: 0, mb: 2 },
+                        '& a': { color: customTheme.custom.primary },
+                        '& blockquote': {
+                          ml: 0,
+                          pl: 2,
+                          borderLeft: `3px solid ${customTheme.custom.divider}`,
+                          color: customTheme.custom.text.secondary
+                        }
+                      }}
+                      dangerouslySetInnerHTML={{ __html: selectedNews.contentHtml }}
+                    />
+                  ) : (
+                    <Typography 
+                      variant="body1" 
+                      sx={{ 
+                        mb: 3,
+                        lineHeight: 1.8,
+                        fontSize: '1.1rem',
+                        whiteSpace: 'pre-line',
+                        color: customTheme.custom.text.primary
+                      }}
+                    >
+                      {selectedNews.content || 'Content not available'}
+                    </Typography>
+                  )}
                   <Box sx={{ 
                     display: 'flex',
                     alignItems: 'center',
@@ -969,6 +1413,90 @@ function App() {
           )}
         </Dialog>
 
+        {/* Article History */}
+        <Dialog
+          open={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          maxWidth="md"
+          fullWidth
+          fullScreen={fullScreen}
+          PaperProps={{ sx: { borderRadius: fullScreen ? 0 : 3 } }}
+        >
+          <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <HistoryIcon sx={{ color: customTheme.custom.primary }} />
+            <Typography variant="h6" sx={{ flexGrow: 1, fontWeight: 600 }}>
+              Article History
+            </Typography>
+            <IconButton onClick={() => setIsHistoryOpen(false)}>
+              <CloseIcon />
+            </IconButton>
+          </DialogTitle>
+          <DialogContent dividers>
+            <TextField
+              fullWidth
+              size="small"
+              placeholder="Search titles and authors"
+              value={historySearch}
+              onChange={(e) => setHistorySearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') loadHistory();
+              }}
+              InputProps={{
+                startAdornment: (
+                  <InputAdornment position="start">
+                    <SearchIcon sx={{ color: customTheme.custom.text.secondary }} />
+                  </InputAdornment>
+                ),
+              }}
+              sx={{ mb: 2 }}
+            />
+            {historyError && (
+              <Alert severity="info" sx={{ borderRadius: 2 }}>
+                {historyError}
+              </Alert>
+            )}
+            {!historyError && !historyLoading && history.length === 0 && (
+              <Typography variant="body2" sx={{ color: customTheme.custom.text.secondary }}>
+                No stored articles yet. Scraped articles appear here.
+              </Typography>
+            )}
+            <List disablePadding>
+              {history.map(article => (
+                <ListItemButton
+                  key={article.id}
+                  onClick={() => {
+                    setSelectedNews(article);
+                    setIsPopupOpen(true);
+                  }}
+                  sx={{ borderRadius: 2 }}
+                >
+                  <ListItemText
+                    primary={article.title}
+                    secondary={`${article.source} • ${article.author} • first seen ${new Date(article.firstSeen).toLocaleString()}` +
+                      (article.updatedAt !== article.firstSeen ? ` • updated ${new Date(article.updatedAt).toLocaleString()}` : '')}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+            {historyLoading && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+                <CircularProgress size={24} />
+              </Box>
+            )}
+          </DialogContent>
+          <DialogActions sx={{ justifyContent: 'space-between', px: 3 }}>
+            <Typography variant="body2" sx={{ color: customTheme.custom.text.secondary }}>
+              {history.length} of {historyTotal} stored articles
+            </Typography>
+            <Button
+              onClick={() => loadHistory(history.length)}
+              disabled={historyLoading || history.length >= historyTotal}
+            >
+              Load more
+            </Button>
+          </DialogActions>
+        </Dialog>
+
         {/* Ethical Considerations Section */}
         <Box sx={{ 
           mt: 8,
@@ -1142,7 +1670,7 @@ function App() {
                   Quick Links
                 </Typography>
                 <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-                  {newsUrls.slice(0, 4).map((newsUrl, index) => (
+                  {newsSources.slice(0, 4).map((newsUrl, index) => (
                     <Button
                       key={index}
                       variant="text"
@@ -0,0 +1,27 @@
+import * as cheerio from 'cheerio';
+import { authorsFromElements, splitAuthors } from './authors';
+
+test('strips bylines down to the people named', () => {
+  expect(splitAuthors('By Juan Dela Cruz, ABS-CBN News | Posted at Jul 01 2024 08:30 AM')).toEqual(['Juan Dela Cruz']);
+  expect(splitAuthors('Ni Maria Santos at Jose Reyes')).toEqual(['Maria Santos', 'Jose Reyes']);
+  expect(splitAuthors('ANA REYES and Ben Cruz of Rappler')).toEqual(['Ana Reyes', 'Ben Cruz']);
+  expect(splitAuthors('Written by Pedro Penduko, Jr.; Pedro Penduko, Jr.')).toEqual(['Pedro Penduko, Jr.']);
+  expect(splitAuthors('news@example.com (Maria Santos)')).toEqual(['Maria Santos']);
+});
+
+test('keeps agencies only when no reporter is named', () => {
+  expect(splitAuthors('Agence France-Presse')).toEqual(['Agence France-Presse']);
+  expect(splitAuthors('Reuters/AP')).toEqual(['Reuters', 'AP']);
+  expect(splitAuthors('https://facebook.com/someone')).toEqual([]);
+  expect(splitAuthors('')).toEqual([]);
+});
+
+test('reads meta tags from their content and collects every matching byline', () => {
+  const $ = cheerio.load(`
+    <meta name="author" content="By Ana Reyes">
+    <span class="author">Juan Dela Cruz</span><span class="author">Maria Santos</span>
+  `);
+
+  expect(authorsFromElements($, ['meta[name="author"]', '.author'])).toEqual(['Ana Reyes']);
+  expect(authorsFromElements($, ['.missing', '.author'])).toEqual(['Juan Dela Cruz', 'Maria Santos']);
+});
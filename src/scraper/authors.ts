@@ -0,0 +1,78 @@
+import type { CheerioAPI } from 'cheerio';
+
+// Outlets and wire services that appear in bylines next to (or instead of) a reporter
+const agencies = [
+  'ABS-CBN News', 'GMA News', 'GMA News Online', 'GMA Integrated News', 'Philippine Daily Inquirer', 'Inquirer.net',
+  'Philstar.com', 'The Philippine Star', 'Rappler', 'Manila Bulletin', 'Philippine News Agency', 'PNA',
+  'CNN Philippines', 'News5', 'Reuters', 'Agence France-Presse', 'AFP', 'Associated Press', 'AP', 'Bloomberg',
+  'Xinhua', 'Kyodo News'
+];
+const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const agencyPattern = agencies.map(escape).join('|');
+const agencyName = new RegExp(`^(?:${agencyPattern})$`, 'i');
+const agencySuffix = new RegExp(`\\s+(?:of|for|ng|-|–)\\s+(?:the\\s+)?(?:${agencyPattern})$`, 'i');
+
+const bylinePrefix = /^(?:(?:written|reported|posted|story|words|text)\s+)?(?:by|ni|nina|mula kay)\b[:\s]*/i;
+// Everything after these belongs to the date line or credits, not the byline
+const bylineEnd = /\s*(?:[|•·]|\b(?:posted|published|updated|last updated|inilathala)\b|\bwith (?:a )?reports? from\b|\bphotos? by\b).*$/i;
+const separators = /\s*(?:[,;&/]|\band\b|\bat\b)\s*/i;
+const nameSuffix = /^(?:jr|sr|ii|iii|iv)\.?$/i;
+
+const titleCase = (name: string) => name.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, gap, letter) => gap + letter.toUpperCase());
+
+const cleanName = (part: string) => {
+  let name = part.replace(/^[\s"'(]+|[\s"')]+$/g, '').replace(bylinePrefix, '').replace(agencySuffix, '').trim();
+  // Shouted bylines ("JUAN DELA CRUZ") read better in title case
+  if (name.length > 3 && name === name.toUpperCase() && /\p{L}/u.test(name) && !agencyName.test(name)) {
+    name = titleCase(name);
+  }
+  return name;
+};
+
+const isName = (name: string) =>
+  name.length > 1 && name.length <= 60 && name.split(' ').length <= 6 && !/\d|:\/\/|@/.test(name) && !/^(unknown|admin)$/i.test(name);
+
+// Turn a raw byline ("By Juan Dela Cruz and Ana Reyes, ABS-CBN News | Posted at ...")
+// into the people who wrote it. Agencies are kept only when no person is named.
+export const splitAuthors = (byline: string | null | undefined): string[] => {
+  let text = (byline || '').replace(/\s+/g, ' ').trim();
+  // RSS <author> holds "email (Name)"
+  const rssAuthor = text.match(/^\S+@\S+\s+\((.+)\)$/);
+  if (rssAuthor) text = rssAuthor[1];
+  // article:author is often a profile URL rather than a name
+  if (/^https?:\/\//i.test(text)) return [];
+  text = text.replace(bylineEnd, '').replace(bylinePrefix, '');
+
+  const parts: string[] = [];
+  text.split(separators).map(cleanName).forEach(part => {
+    if (nameSuffix.test(part) && parts.length) {
+      parts[parts.length - 1] += `, ${part}`;
+    } else {
+      parts.push(part);
+    }
+  });
+  const names = parts.filter((name, i) =>
+    isName(name) && parts.findIndex(other => other.toLowerCase() === name.toLowerCase()) === i);
+
+  const people = names.filter(name => !agencyName.test(name));
+  return people.length ? people : names;
+};
+
+// Every element matched by the first selector that names anyone; meta tags are read
+// from their content attribute
+export const authorsFromElements = ($: CheerioAPI, selectors: string[]): string[] => {
+  for (const selector of selectors) {
+    const authors: string[] = [];
+    $(selector).toArray().slice(0, 5).forEach(el => {
+      const $el = $(el);
+      const value = el.type === 'tag' && el.name === 'meta' ? $el.attr('content') : $el.text();
+      splitAuthors(value).forEach(name => {
+        if (!authors.some(existing => existing.toLowerCase() === name.toLowerCase())) authors.push(name);
+      });
+    });
+    if (authors.length) return authors;
+  }
+  return [];
+};
+
+export const formatAuthors = (authors: string[]) => authors.join(', ') || 'Unknown';
@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createResponseCache, fetchWithCache, freshnessLifetime, PageResponse } from './cache';
+
+const page = (headers: Record<string, string>, data = '<html></html>', status = 200): PageResponse => ({ status, headers, data });
+
+test('derives freshness from max-age, Expires and Last-Modified', () => {
+  expect(freshnessLifetime({ 'cache-control': 'public, max-age=60' })).toBe(60000);
+  expect(freshnessLifetime({ 'cache-control': 'max-age=60, s-maxage=10' })).toBe(10000);
+  expect(freshnessLifetime({ 'cache-control': 'no-cache, max-age=60' })).toBe(0);
+  expect(freshnessLifetime({
+    date: 'Mon, 01 Jan 2024 00:00:00 GMT',
+    expires: 'Mon, 01 Jan 2024 00:05:00 GMT'
+  })).toBe(300000);
+  expect(freshnessLifetime({
+    date: 'Mon, 01 Jan 2024 01:00:00 GMT',
+    'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT'
+  })).toBe(360000);
+});
+
+test('serves fresh entries without a request', async () => {
+  const cache = createResponseCache({ maxEntries: 10 });
+  const request = jest.fn(async () => page({ 'Cache-Control': 'max-age=60' }, 'first'));
+
+  await fetchWithCache('https://example.com/', {}, request, cache);
+  const second = await fetchWithCache('https://example.com/', {}, request, cache);
+
+  expect(request).toHaveBeenCalledTimes(1);
+  expect(second).toMatchObject({ status: 200, data: 'first', cached: true });
+});
+
+test('revalidates stale entries with conditional headers', async () => {
+  const cache = createResponseCache({ maxEntries: 10 });
+  const seen: Record<string, string>[] = [];
+  const responses = [page({ etag: '"v1"', 'cache-control': 'no-cache' }, 'body'), page({ etag: '"v1"' }, '', 304)];
+  const request = async (headers: Record<string, string>) => {
+    seen.push(headers);
+    return responses.shift() as PageResponse;
+  };
+
+  await fetchWithCache('https://example.com/a', {}, request, cache);
+  const revalidated = await fetchWithCache('https://example.com/a', {}, request, cache);
+
+  expect(seen[1]['If-None-Match']).toBe('"v1"');
+  expect(revalidated).toMatchObject({ status: 200, data: 'body', cached: true });
+});
+
+test('does not store no-store responses or errors', async () => {
+  const cache = createResponseCache({ maxEntries: 10 });
+  await fetchWithCache('https://example.com/private', {}, async () => page({ 'cache-control': 'no-store', etag: '"x"' }), cache);
+  await fetchWithCache('https://example.com/missing', {}, async () => page({ 'cache-control': 'max-age=60' }, '', 404), cache);
+
+  expect(await cache.get('https://example.com/private')).toBeUndefined();
+  expect(await cache.get('https://example.com/missing')).toBeUndefined();
+});
+
+test('evicts the least recently used entry', async () => {
+  const cache = createResponseCache({ maxEntries: 2 });
+  const entry = (url: string) => ({ url, status: 200, headers: {}, data: url, vary: {}, storedAt: 0, expiresAt: 0 });
+  cache.set(entry('a'));
+  cache.set(entry('b'));
+  await cache.get('a');
+  cache.set(entry('c'));
+
+  expect(await cache.get('a')).toBeDefined();
+  expect(await cache.get('b')).toBeUndefined();
+});
+
+test('evicts by total body size as well as by count', async () => {
+  const cache = createResponseCache({ maxEntries: 10, maxBytes: 35 });
+  const entry = (url: string, data: unknown) => ({ url, status: 200, headers: {}, data, vary: {}, storedAt: 0, expiresAt: 0 });
+  cache.set(entry('a', '0123456789'));
+  cache.set(entry('b', '0123456789'));
+  cache.set(entry('c', { body: '0123456789' }));
+
+  expect(await cache.get('a')).toBeUndefined();
+  expect(await cache.get('b')).toBeDefined();
+  expect(await cache.get('c')).toBeDefined();
+
+  // Too big to hold at all, and it does not push out what is there
+  cache.set(entry('huge', 'x'.repeat(36)));
+  expect(await cache.get('huge')).toBeUndefined();
+  expect(await cache.get('b')).toBeDefined();
+});
+
+test('reads entries back from the disk store', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrape-cache-'));
+  await createResponseCache({ maxEntries: 10, dir }).set({
+    url: 'https://example.com/disk', status: 200, headers: {}, data: 'from origin', vary: {}, storedAt: 0, expiresAt: 0
+  });
+
+  const restarted = createResponseCache({ maxEntries: 10, dir });
+  expect(await restarted.get('https://example.com/disk')).toMatchObject({ data: 'from origin' });
+  fs.rmSync(dir, { recursive: true, force: true });
+});
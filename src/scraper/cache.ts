@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface PageResponse {
+  status: number;
+  headers: Record<string, string>;
+  data: any;
+  // Set when the body came from the cache, with or without revalidation
+  cached?: boolean;
+}
+
+export interface CacheEntry {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  data: any;
+  // Request header values named by the response's Vary header
+  vary: Record<string, string>;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export interface ResponseCache {
+  get: (url: string) => Promise<CacheEntry | undefined>;
+  // Resolves once the entry is on disk; memory is updated straight away
+  set: (entry: CacheEntry) => Promise<void>;
+  clear: () => void;
+}
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  // Total size of the bodies held in memory; defaultMaxBytes unless set
+  maxBytes?: number;
+  // Optional directory that keeps entries across restarts
+  dir?: string;
+}
+
+// Heuristic freshness from Last-Modified is capped so busy front pages stay current
+const maxHeuristicMs = 60 * 60 * 1000;
+// Pages may be up to 5 MB each, so the entry count alone does not bound memory
+const defaultMaxBytes = 64 * 1024 * 1024;
+
+// Only the response headers we need to serve or revalidate a cached page are kept
+const storedHeaders = ['content-type', 'etag', 'last-modified', 'cache-control', 'expires', 'date', 'vary'];
+
+export const parseCacheControl = (header: string | undefined) => {
+  const directives: Record<string, string | true> = {};
+  (header || '').split(',').forEach(part => {
+    const [name, value] = part.split('=');
+    if (!name.trim()) return;
+    directives[name.trim().toLowerCase()] = value === undefined ? true : value.trim().replace(/^"|"$/g, '');
+  });
+  return directives;
+};
+
+const seconds = (value: string | true | undefined) => {
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+// How long a response may be served without asking the origin again (RFC 9111 section 4.2)
+export const freshnessLifetime = (headers: Record<string, string>, now = Date.now()) => {
+  const cacheControl = parseCacheControl(headers['cache-control']);
+  if (cacheControl['no-cache']) return 0;
+
+  const maxAge = seconds(cacheControl['s-maxage']) ?? seconds(cacheControl['max-age']);
+  if (maxAge !== undefined) return maxAge * 1000;
+
+  const date = Date.parse(headers['date'] || '') || now;
+  if (headers['expires']) {
+    const expires = Date.parse(headers['expires']);
+    return isNaN(expires) ? 0 : Math.max(0, expires - date);
+  }
+
+  const lastModified = Date.parse(headers['last-modified'] || '');
+  if (!isNaN(lastModified)) {
+    return Math.min(Math.max(0, date - lastModified) / 10, maxHeuristicMs);
+  }
+  return 0;
+};
+
+// no-store and Vary: * rule out caching; so does a stale-on-arrival response without validators
+export const isStorable = (response: PageResponse) => {
+  if (response.status !== 200) return false;
+  const cacheControl = parseCacheControl(response.headers['cache-control']);
+  if (cacheControl['no-store']) return false;
+  if ((response.headers['vary'] || '').trim() === '*') return false;
+  return Boolean(response.headers['etag'] || response.headers['last-modified'] || freshnessLifetime(response.headers) > 0);
+};
+
+const pickHeaders = (headers: Record<string, any>) => {
+  const picked: Record<string, string> = {};
+  storedHeaders.forEach(name => {
+    const value = headers[name];
+    if (value !== undefined && value !== null) picked[name] = String(value);
+  });
+  return picked;
+};
+
+const lowerCaseKeys = (headers: Record<string, string>) => {
+  const lowered: Record<string, string> = {};
+  Object.keys(headers).forEach(name => {
+    lowered[name.toLowerCase()] = headers[name];
+  });
+  return lowered;
+};
+
+const varyValues = (vary: string | undefined, requestHeaders: Record<string, string>) => {
+  const lowered = lowerCaseKeys(requestHeaders);
+  const values: Record<string, string> = {};
+  (vary || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean).forEach(name => {
+    values[name] = lowered[name] || '';
+  });
+  return values;
+};
+
+const varyMatches = (entry: CacheEntry, requestHeaders: Record<string, string>) => {
+  const current = varyValues(Object.keys(entry.vary).join(','), requestHeaders);
+  return Object.keys(entry.vary).every(name => entry.vary[name] === current[name]);
+};
+
+// Body bytes an entry holds in memory; parsed JSON bodies are counted as serialised
+const entrySize = (entry: CacheEntry) =>
+  Buffer.byteLength(typeof entry.data === 'string' ? entry.data : JSON.stringify(entry.data) ?? '');
+
+const entryFile = (dir: string, url: string) =>
+  path.join(dir, `${crypto.createHash('sha1').update(url).digest('hex')}.json`);
+
+// In-memory LRU (a Map keeps insertion order, so re-inserting marks an entry as recent)
+// bounded by entry count and total body size, written through to one JSON file per url
+// when a directory is configured. An entry bigger than the whole budget stays on disk only.
+export const createResponseCache = ({ maxEntries, maxBytes = defaultMaxBytes, dir }: ResponseCacheOptions): ResponseCache => {
+  const entries = new Map<string, { entry: CacheEntry; size: number }>();
+  let totalBytes = 0;
+
+  const forget = (url: string) => {
+    const held = entries.get(url);
+    if (!held) return;
+    entries.delete(url);
+    totalBytes -= held.size;
+  };
+
+  const remember = (entry: CacheEntry) => {
+    forget(entry.url);
+    const size = entrySize(entry);
+    if (size > maxBytes) return;
+    entries.set(entry.url, { entry, size });
+    totalBytes += size;
+    while (entries.size > maxEntries || totalBytes > maxBytes) {
+      forget(entries.keys().next().value as string);
+    }
+  };
+
+  const readFromDisk = async (url: string) => {
+    if (!dir) return undefined;
+    try {
+      const entry: CacheEntry = JSON.parse(await fs.promises.readFile(entryFile(dir, url), 'utf8'));
+      return entry.url === url ? entry : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  };
+
+  const writeToDisk = async (entry: CacheEntry) => {
+    if (!dir) return;
+    try {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(entryFile(dir, entry.url), JSON.stringify(entry));
+    } catch (error: any) {
+      console.error('Could not write cache entry for', entry.url, error.message);
+    }
+  };
+
+  return {
+    get: async url => {
+      const entry = entries.get(url)?.entry || await readFromDisk(url);
+      if (entry) remember(entry);
+      return entry;
+    },
+    set: entry => {
+      remember(entry);
+      return writeToDisk(entry);
+    },
+    clear: () => {
+      entries.clear();
+      totalBytes = 0;
+    }
+  };
+};
+
+export const responseCache = createResponseCache({
+  maxEntries: Number(process.env.SCRAPE_CACHE_MAX_ENTRIES) || 500,
+  maxBytes: Number(process.env.SCRAPE_CACHE_MAX_BYTES) || undefined,
+  dir: process.env.SCRAPE_CACHE_DIR || undefined
+});
+
+// Serve fresh entries directly, revalidate stale ones with If-None-Match/If-Modified-Since,
+// and store whatever the origin allows us to keep
+export const fetchWithCache = async (
+  url: string,
+  requestHeaders: Record<string, string>,
+  request: (headers: Record<string, string>) => Promise<PageResponse>,
+  cache: ResponseCache = responseCache
+): Promise<PageResponse> => {
+  const now = Date.now();
+  const cached = await cache.get(url);
+  const usable = cached && varyMatches(cached, requestHeaders) ? cached : undefined;
+
+  if (usable && usable.expiresAt > now) {
+    return { status: usable.status, headers: usable.headers, data: usable.data, cached: true };
+  }
+
+  const conditional = { ...requestHeaders };
+  if (usable?.headers['etag']) conditional['If-None-Match'] = usable.headers['etag'];
+  if (usable?.headers['last-modified']) conditional['If-Modified-Since'] = usable.headers['last-modified'];
+
+  const response = await request(conditional);
+
+  if (response.status === 304 && usable) {
+    // The origin confirmed our copy; take its updated caching headers
+    const headers = { ...usable.headers, ...pickHeaders(lowerCaseKeys(response.headers)) };
+    cache.set({ ...usable, headers, storedAt: now, expiresAt: now + freshnessLifetime(headers, now) });
+    return { status: usable.status, headers, data: usable.data, cached: true };
+  }
+
+  const result = { status: response.status, headers: lowerCaseKeys(response.headers), data: response.data };
+  if (isStorable(result)) {
+    const headers = pickHeaders(result.headers);
+    cache.set({
+      url,
+      status: response.status,
+      headers,
+      data: response.data,
+      vary: varyValues(headers['vary'], requestHeaders),
+      storedAt: now,
+      expiresAt: now + freshnessLifetime(headers, now)
+    });
+  }
+  return result;
+};
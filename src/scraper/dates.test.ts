@@ -0,0 +1,62 @@
+import * as cheerio from 'cheerio';
+import { dateFromElements, parseDate, parseWithFormat } from './dates';
+
+const now = new Date('2024-07-01T04:00:00.000Z');
+
+test('keeps explicit zones and reads zoneless times in Asia/Manila', () => {
+  expect(parseDate('2024-07-01T08:30:00+08:00')).toEqual({ iso: '2024-07-01T00:30:00.000Z', confidence: 'exact' });
+  expect(parseDate('Mon, 01 Jul 2024 08:30:00 GMT')).toEqual({ iso: '2024-07-01T08:30:00.000Z', confidence: 'exact' });
+  expect(parseDate('2024-07-01 08:30')).toEqual({ iso: '2024-07-01T00:30:00.000Z', confidence: 'local' });
+  expect(parseDate('Posted 2024/01/02 at noon')).toEqual({ iso: '2024-01-01T16:00:00.000Z', confidence: 'day' });
+  expect(parseDate('2024-07-01 08:30', { timeZone: 'UTC' })?.iso).toBe('2024-07-01T08:30:00.000Z');
+});
+
+test('understands English and Filipino month names', () => {
+  expect(parseDate('July 1, 2024 3:45 PM')).toEqual({ iso: '2024-07-01T07:45:00.000Z', confidence: 'local' });
+  expect(parseDate('Published: Sept. 3, 2024 - 10:05 a.m. PHT')?.iso).toBe('2024-09-03T02:05:00.000Z');
+  expect(parseDate('Hulyo 1, 2024')?.iso).toBe('2024-06-30T16:00:00.000Z');
+  expect(parseDate('1 ng Disyembre 2024')?.iso).toBe('2024-11-30T16:00:00.000Z');
+  expect(parseDate('07/01/2024')?.iso).toBe('2024-06-30T16:00:00.000Z');
+});
+
+test('resolves relative dates against the current time', () => {
+  expect(parseDate('3 hours ago', { now })).toEqual({ iso: '2024-07-01T01:00:00.000Z', confidence: 'relative' });
+  expect(parseDate('an hour ago', { now })?.iso).toBe('2024-07-01T03:00:00.000Z');
+  expect(parseDate('5 minuto ang nakalipas', { now })?.iso).toBe('2024-07-01T03:55:00.000Z');
+  expect(parseDate('Yesterday at 3:45 PM', { now })?.iso).toBe('2024-06-30T07:45:00.000Z');
+  expect(parseDate('kahapon', { now })?.iso).toBe('2024-06-29T16:00:00.000Z');
+});
+
+test('prefers an absolute date to an "updated ... ago" note beside it', () => {
+  expect(parseDate('January 5, 2024 | Updated 3 hours ago', { now })).toEqual({ iso: '2024-01-04T16:00:00.000Z', confidence: 'day' });
+  expect(parseDate('Updated 2 hours ago · 2024/06/30', { now })?.confidence).toBe('day');
+});
+
+test('returns null instead of guessing', () => {
+  expect(parseDate('')).toBeNull();
+  expect(parseDate('Updated recently')).toBeNull();
+  expect(parseDate('February 30, 2024')).toBeNull();
+  expect(parseDate('a long time ago')).toBeNull();
+});
+
+test('tries the profile formats first', () => {
+  expect(parseWithFormat('01.07.2024 | 14:05', 'DD.MM.YYYY | HH:mm')?.iso).toBe('2024-07-01T06:05:00.000Z');
+  // Month first would read this as January 7
+  expect(parseDate('01/07/2024', { formats: ['DD/MM/YYYY'] })?.iso).toBe('2024-06-30T16:00:00.000Z');
+});
+
+test('keeps bracketed words in a format as literal text', () => {
+  // Manila time, UTC+8
+  expect(parseWithFormat('Posted July 1, 2024 at 2:05 PM', 'MMMM D, YYYY [at] h:mm A')?.iso).toBe('2024-07-01T06:05:00.000Z');
+  expect(parseWithFormat('Published: 01 Jul 2024, Updated daily', '[Published:] DD MMM YYYY, [Updated]')?.iso)
+    .toBe('2024-06-30T16:00:00.000Z');
+  // Without brackets the "a" of "at" is read as am/pm and nothing matches
+  expect(parseWithFormat('July 1, 2024 at 2:05 PM', 'MMMM D, YYYY at h:mm A')).toBeNull();
+});
+
+test('reads datetime attributes before element text', () => {
+  const $ = cheerio.load('<span class="date">Today</span><time datetime="2024-06-30T22:00:00Z">Sunday night</time>');
+
+  expect(dateFromElements($, ['time', '.date'], { now })).toEqual({ iso: '2024-06-30T22:00:00.000Z', confidence: 'exact' });
+  expect(dateFromElements($, ['.missing'])).toBeNull();
+});
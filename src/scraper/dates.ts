@@ -0,0 +1,319 @@
+import type { CheerioAPI } from 'cheerio';
+import { DateConfidence } from './types';
+
+export interface DateParseOptions {
+  // Zone for dates printed without one (default Asia/Manila)
+  timeZone?: string;
+  // Site-specific formats such as "MMMM D, YYYY h:mm A", tried before the generic rules
+  formats?: string[];
+  // Reference time for relative dates
+  now?: Date;
+}
+
+export interface ParsedDate {
+  iso: string;
+  confidence: Exclude<DateConfidence, 'none'>;
+}
+
+export const defaultTimeZone = 'Asia/Manila';
+
+const months: Record<string, number> = {};
+[
+  ['january', 'jan', 'enero', 'ene'],
+  ['february', 'feb', 'pebrero', 'peb'],
+  ['march', 'mar', 'marso'],
+  ['april', 'apr', 'abril', 'abr'],
+  ['may', 'mayo'],
+  ['june', 'jun', 'hunyo', 'hun'],
+  ['july', 'jul', 'hulyo', 'hul'],
+  ['august', 'aug', 'agosto', 'ago'],
+  ['september', 'sep', 'sept', 'setyembre', 'septiyembre', 'set'],
+  ['october', 'oct', 'oktubre', 'okt'],
+  ['november', 'nov', 'nobyembre', 'nob'],
+  ['december', 'dec', 'disyembre', 'dis']
+].forEach((names, i) => names.forEach(name => {
+  months[name] = i + 1;
+}));
+const monthPattern = Object.keys(months).sort((a, b) => b.length - a.length).join('|');
+
+const unitMs: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000
+};
+const unitNames: [RegExp, string][] = [
+  [/^(s|secs?|seconds?|segundo)$/, 'second'],
+  [/^(m|mins?|minutes?|minuto)$/, 'minute'],
+  [/^(h|hrs?|hours?|oras)$/, 'hour'],
+  [/^(d|days?|araw)$/, 'day'],
+  [/^(w|wks?|weeks?|linggo)$/, 'week'],
+  [/^(mos?|months?|buwan)$/, 'month'],
+  [/^(y|yrs?|years?|taon)$/, 'year']
+];
+
+// Named zones news sites print after a time
+const zoneOffsets: Record<string, number> = { pht: 480, pst: 480, sgt: 480, hkt: 480, jst: 540, utc: 0, gmt: 0, z: 0 };
+
+// Minutes the zone is ahead of UTC at the given instant
+const zoneOffsetMinutes = (timeZone: string, utcMs: number) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(utcMs));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((wallClock - Math.floor(utcMs / 1000) * 1000) / 60000);
+};
+
+const isTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    console.log('Unknown time zone:', timeZone);
+    return false;
+  }
+};
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  // Minutes ahead of UTC, when the text names a zone
+  offset?: number;
+}
+
+const toParsed = (parts: DateParts, timeZone: string): ParsedDate | null => {
+  const { year, month, day, hour = 0, minute = 0, second = 0 } = parts;
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const check = new Date(wallClock);
+  if (check.getUTCDate() !== day || check.getUTCMonth() !== month - 1) return null;
+
+  let utcMs: number;
+  if (parts.offset !== undefined) {
+    utcMs = wallClock - parts.offset * 60000;
+  } else {
+    // Two passes settle the offset around daylight-saving changes
+    utcMs = wallClock - zoneOffsetMinutes(timeZone, wallClock) * 60000;
+    utcMs = wallClock - zoneOffsetMinutes(timeZone, utcMs) * 60000;
+  }
+
+  const confidence = parts.offset !== undefined ? 'exact' : parts.hour !== undefined ? 'local' : 'day';
+  return { iso: new Date(utcMs).toISOString(), confidence };
+};
+
+const parseOffset = (zone: string | undefined) => {
+  if (!zone) return undefined;
+  const named = zoneOffsets[zone.toLowerCase()];
+  if (named !== undefined) return named;
+  const match = zone.match(/^(?:gmt|utc)?([+-])(\d{1,2}):?(\d{2})?$/i);
+  if (!match) return undefined;
+  return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3] || 0));
+};
+
+const to24Hour = (hour: number, meridiem: string | undefined) => {
+  if (!meridiem) return hour;
+  const pm = /^p/i.test(meridiem);
+  if (hour === 12) return pm ? 12 : 0;
+  return pm ? hour + 12 : hour;
+};
+
+const fullYear = (year: number) => (year < 100 ? 2000 + year : year);
+
+// Optional time after a date: "3:45 PM", "- 15:45:10", "3:45 p.m. PHT", "08:30:00 +0800"
+const timePattern = String.raw`(?:(?:[,\s]+|\s*[-–|·•]\s*)(?:at\s+|alas\s+)?(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?(?:\s*\(?(pht|pst|sgt|hkt|jst|utc|gmt|z|(?:gmt|utc)?[+-]\d{1,2}(?::?\d{2})?)\)?)?)?`;
+
+const readTime = (match: RegExpMatchArray, from: number) => {
+  if (match[from] === undefined) return {};
+  return {
+    hour: to24Hour(Number(match[from]), match[from + 3]),
+    minute: Number(match[from + 1]),
+    second: match[from + 2] ? Number(match[from + 2]) : undefined,
+    offset: parseOffset(match[from + 4])
+  };
+};
+
+const isoPattern = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?$/i;
+const monthFirst = new RegExp(String.raw`\b(${monthPattern})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})` + timePattern, 'i');
+const dayFirst = new RegExp(String.raw`\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:ng\s+)?(${monthPattern})\.?,?\s+(\d{4})` + timePattern, 'i');
+const yearFirst = new RegExp(String.raw`\b(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})\b` + timePattern, 'i');
+const numericMonthFirst = new RegExp(String.raw`\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b` + timePattern, 'i');
+
+const parseIso = (text: string, timeZone: string) => {
+  const match = text.match(isoPattern);
+  if (!match) return null;
+  return toParsed({
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: match[4] !== undefined ? Number(match[4]) : undefined,
+    minute: match[5] !== undefined ? Number(match[5]) : undefined,
+    second: match[6] !== undefined ? Number(match[6]) : undefined,
+    offset: parseOffset(match[7])
+  }, timeZone);
+};
+
+const parseRelative = (text: string, now: Date, timeZone: string): ParsedDate | null => {
+  const lower = text.toLowerCase();
+  if (/\b(just now|ngayon lang|kani-kanina lang)\b/.test(lower)) {
+    return { iso: now.toISOString(), confidence: 'relative' };
+  }
+
+  const ago = lower.match(/\b(an?|isang|\d+)\s*([a-z]+)\s+(?:ago|ang nakalipas|na ang nakalipas|nakaraan)\b/) ||
+    lower.match(/\b(?:nakalipas na|noong)\s+(isang|\d+)\s*([a-z]+)\b/);
+  if (ago) {
+    const unit = unitNames.find(([pattern]) => pattern.test(ago[2]))?.[1];
+    if (unit) {
+      const amount = /^\d+$/.test(ago[1]) ? Number(ago[1]) : 1;
+      return { iso: new Date(now.getTime() - amount * unitMs[unit]).toISOString(), confidence: 'relative' };
+    }
+  }
+
+  const daysBack = /\b(yesterday|kahapon)\b/.test(lower) ? 1 : /\b(today|ngayong araw)\b/.test(lower) ? 0 : null;
+  if (daysBack === null) return null;
+  // Keep any printed time ("Yesterday at 3:45 PM"), on the zone's calendar day
+  const localNow = new Date(now.getTime() + zoneOffsetMinutes(timeZone, now.getTime()) * 60000 - daysBack * unitMs.day);
+  const time = lower.match(/(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?/);
+  const parsed = toParsed({
+    year: localNow.getUTCFullYear(),
+    month: localNow.getUTCMonth() + 1,
+    day: localNow.getUTCDate(),
+    ...(time ? { hour: to24Hour(Number(time[1]), time[3]), minute: Number(time[2]) } : {})
+  }, timeZone);
+  return parsed && { ...parsed, confidence: 'relative' };
+};
+
+const formatTokens: [string, string, keyof DateParts | 'meridiem' | 'monthName' | 'zone'][] = [
+  ['YYYY', '(\\d{4})', 'year'],
+  ['YY', '(\\d{2})', 'year'],
+  ['MMMM', `(${monthPattern})`, 'monthName'],
+  ['MMM', `(${monthPattern})\\.?`, 'monthName'],
+  ['MM', '(\\d{2})', 'month'],
+  ['M', '(\\d{1,2})', 'month'],
+  ['DD', '(\\d{2})', 'day'],
+  ['D', '(\\d{1,2})', 'day'],
+  ['HH', '(\\d{2})', 'hour'],
+  ['H', '(\\d{1,2})', 'hour'],
+  ['hh', '(\\d{2})', 'hour'],
+  ['h', '(\\d{1,2})', 'hour'],
+  ['mm', '(\\d{2})', 'minute'],
+  ['ss', '(\\d{2})', 'second'],
+  ['A', '([ap]\\.?m\\.?)', 'meridiem'],
+  ['a', '([ap]\\.?m\\.?)', 'meridiem'],
+  ['Z', '([+-]\\d{2}:?\\d{2}|Z)', 'zone']
+];
+const tokensByName = new Map(formatTokens.map(token => [token[0], token]));
+// Text in square brackets is literal, as in moment and dayjs: "MMMM D, YYYY [at] h:mm A"
+const tokenPattern = new RegExp(['\\[([^\\]]*)\\]', ...formatTokens.map(([name]) => name)].join('|'), 'g');
+
+// Match a profile format such as "MMMM D, YYYY h:mm A" anywhere in the text
+export const parseWithFormat = (text: string, format: string, timeZone = defaultTimeZone): ParsedDate | null => {
+  const fields: typeof formatTokens[number][2][] = [];
+  const literal = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ +/g, '\\s+');
+  let pattern = '';
+  let last = 0;
+  let token: RegExpExecArray | null;
+  tokenPattern.lastIndex = 0;
+  while ((token = tokenPattern.exec(format))) {
+    pattern += literal(format.slice(last, token.index));
+    last = token.index + token[0].length;
+    if (token[1] !== undefined) {
+      pattern += literal(token[1]);
+      continue;
+    }
+    const [, regex, field] = tokensByName.get(token[0])!;
+    pattern += regex;
+    fields.push(field);
+  }
+  pattern += literal(format.slice(last));
+
+  const match = text.match(new RegExp(pattern, 'i'));
+  if (!match) return null;
+  const parts: Partial<DateParts> = {};
+  let meridiem: string | undefined;
+  fields.forEach((field, i) => {
+    const value = match[i + 1];
+    if (field === 'monthName') parts.month = months[value.toLowerCase().replace(/\.$/, '')];
+    else if (field === 'meridiem') meridiem = value;
+    else if (field === 'zone') parts.offset = parseOffset(value);
+    else if (field === 'year') parts.year = fullYear(Number(value));
+    else parts[field] = Number(value);
+  });
+  if (parts.hour !== undefined) parts.hour = to24Hour(parts.hour, meridiem);
+  if (parts.hour !== undefined && parts.minute === undefined) parts.minute = 0;
+  if (!parts.year || !parts.month || !parts.day) return null;
+  return toParsed(parts as DateParts, timeZone);
+};
+
+// Normalise a date as printed by a news site. Returns null, never "now",
+// when the text holds no recognisable date.
+export const parseDate = (value: string | null | undefined, options: DateParseOptions = {}): ParsedDate | null => {
+  const text = (value || '').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+  const timeZone = options.timeZone && isTimeZone(options.timeZone) ? options.timeZone : defaultTimeZone;
+
+  const iso = parseIso(text, timeZone);
+  if (iso) return iso;
+
+  for (const format of options.formats || []) {
+    const parsed = parseWithFormat(text, format, timeZone);
+    if (parsed) return parsed;
+  }
+
+  let match = text.match(monthFirst);
+  if (match) {
+    return toParsed({ year: Number(match[3]), month: months[match[1].toLowerCase()], day: Number(match[2]), ...readTime(match, 4) }, timeZone);
+  }
+  match = text.match(dayFirst);
+  if (match) {
+    return toParsed({ year: Number(match[3]), month: months[match[2].toLowerCase()], day: Number(match[1]), ...readTime(match, 4) }, timeZone);
+  }
+  match = text.match(yearFirst);
+  if (match) {
+    return toParsed({ year: Number(match[1]), month: Number(match[2]), day: Number(match[3]), ...readTime(match, 4) }, timeZone);
+  }
+  // Philippine sites write numeric dates month first
+  match = text.match(numericMonthFirst);
+  if (match) {
+    return toParsed({ year: fullYear(Number(match[3])), month: Number(match[1]), day: Number(match[2]), ...readTime(match, 4) }, timeZone);
+  }
+
+  // RFC 2822 and other zoned forms the generic parser handles
+  if (/(gmt|utc|[+-]\d{4})\b/i.test(text)) {
+    const parsed = Date.parse(text);
+    if (!isNaN(parsed)) return { iso: new Date(parsed).toISOString(), confidence: 'exact' };
+  }
+
+  // Last, so "January 5, 2024 | Updated 3 hours ago" keeps its real date
+  return parseRelative(text, options.now || new Date(), timeZone);
+};
+
+// Machine-readable dates first: datetime and content attributes, then the element's text
+export const dateFromElements = ($: CheerioAPI, selectors: string[], options: DateParseOptions = {}): ParsedDate | null => {
+  for (const selector of selectors) {
+    for (const el of $(selector).toArray().slice(0, 3)) {
+      const $el = $(el);
+      for (const candidate of [$el.attr('datetime'), $el.attr('content'), $el.attr('data-timestamp'), $el.text()]) {
+        const parsed = parseDate(candidate, options);
+        if (parsed) return parsed;
+      }
+    }
+  }
+  return null;
+};
+
@@ -0,0 +1,34 @@
+import { errorResponse, errorStatuses, ScrapeError, toScrapeError } from './errors';
+
+test('takes the HTTP status from the error code', () => {
+  expect(new ScrapeError('ROBOTS_DISALLOWED', 'no')).toMatchObject({ status: 403, code: 'ROBOTS_DISALLOWED' });
+  expect(new ScrapeError('TIMEOUT', 'slow').status).toBe(504);
+  Object.values(errorStatuses).forEach(status => {
+    expect(status).toBeGreaterThanOrEqual(400);
+    expect(status).toBeLessThan(600);
+  });
+});
+
+test('maps axios failures to codes', () => {
+  expect(toScrapeError({ code: 'ECONNABORTED', request: {} })).toMatchObject({ code: 'TIMEOUT', status: 504 });
+  expect(toScrapeError({ response: { status: 500 } })).toMatchObject({ code: 'UPSTREAM_STATUS', status: 502 });
+  expect(toScrapeError({ code: 'ECONNREFUSED', request: {} })).toMatchObject({ code: 'NO_RESPONSE', status: 502 });
+  expect(toScrapeError(new Error('bug'))).toMatchObject({ code: 'INTERNAL_ERROR', status: 500 });
+  expect(toScrapeError({ code: 'ERR_CANCELED', message: 'canceled' })).toMatchObject({ code: 'CANCELLED', status: 499 });
+
+  const blocked = new ScrapeError('BLOCKED_ADDRESS', 'private');
+  expect(toScrapeError(Object.assign(new Error('wrapped'), { cause: blocked }))).toBe(blocked);
+  // axios around follow-redirects around the redirect check
+  expect(toScrapeError({ code: 'ERR_FR_REDIRECTION_FAILURE', request: {}, cause: { cause: blocked } })).toBe(blocked);
+});
+
+test('builds the error body every handler sends', () => {
+  expect(errorResponse(new ScrapeError('NO_ARTICLES', 'Nothing here'))).toEqual({
+    status: 404,
+    body: { error: 'Nothing here', code: 'NO_ARTICLES' }
+  });
+
+  const failed = new ScrapeError('UPSTREAM_STATUS', 'Status 500');
+  failed.diagnostics = { via: 'links' } as any;
+  expect(errorResponse(failed).body.diagnostics).toEqual({ via: 'links' });
+});
@@ -0,0 +1,96 @@
+import type { ApiErrorBody, ErrorCode, ScrapeDiagnostics } from './types';
+
+// One HTTP status per code, so the Express server and the Netlify functions agree.
+// Failures of the website being scraped are 502, or 504 when it timed out.
+export const errorStatuses: Record<ErrorCode, number> = {
+  INVALID_URL: 400,
+  INVALID_OPTION: 400,
+  INVALID_BODY: 400,
+  UNAUTHORIZED: 401,
+  BLOCKED_ADDRESS: 403,
+  ROBOTS_DISALLOWED: 403,
+  NOT_FOUND: 404,
+  NO_ARTICLES: 404,
+  METHOD_NOT_ALLOWED: 405,
+  JOB_RUNNING: 409,
+  UNSUPPORTED_CONTENT: 415,
+  RATE_LIMITED: 429,
+  // Nobody is left to read it, but logs show why the scrape stopped
+  CANCELLED: 499,
+  INTERNAL_ERROR: 500,
+  RENDER_UNAVAILABLE: 501,
+  BLOCKED_BY_SITE: 502,
+  UPSTREAM_STATUS: 502,
+  NO_RESPONSE: 502,
+  RESPONSE_TOO_LARGE: 502,
+  RENDER_FAILED: 502,
+  HOST_UNAVAILABLE: 503,
+  TIMEOUT: 504
+};
+
+const timeoutCodes = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ERR_SOCKET_CONNECTION_TIMEOUT']);
+
+export class ScrapeError extends Error {
+  status: number;
+  code: ErrorCode;
+  // What a failed scrape got through before it failed
+  diagnostics?: ScrapeDiagnostics;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'ScrapeError';
+    this.code = code;
+    this.status = errorStatuses[code];
+  }
+}
+
+// A site profile file that cannot be parsed or does not match the schema
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+// A ScrapeError thrown inside an axios hook (DNS lookup, redirect check) comes
+// back wrapped, by axios and on redirects by follow-redirects as well
+export const scrapeErrorCause = (error: any): ScrapeError | undefined => {
+  for (let cause = error, depth = 0; cause && depth < 5; cause = cause.cause, depth++) {
+    if (cause instanceof ScrapeError) return cause;
+  }
+  return undefined;
+};
+
+// Map an axios (or unexpected) failure to the error the handlers send back
+export const toScrapeError = (error: any): ScrapeError => {
+  const scrapeError = scrapeErrorCause(error);
+  if (scrapeError) {
+    return scrapeError;
+  }
+  if (error?.code === 'ERR_CANCELED') {
+    return new ScrapeError('CANCELLED', 'The scrape was cancelled.');
+  }
+  if (timeoutCodes.has(error?.code)) {
+    return new ScrapeError('TIMEOUT', 'The website took too long to respond.');
+  }
+  if (error?.response) {
+    return new ScrapeError('UPSTREAM_STATUS', `Server responded with status ${error.response.status}`);
+  }
+  if (error?.request) {
+    return new ScrapeError('NO_RESPONSE', 'No response received from the website. Please check the URL and try again.');
+  }
+  return new ScrapeError('INTERNAL_ERROR', 'Error setting up the request. Please try again.');
+};
+
+// Stop before the next request once the client has gone away
+export const throwIfCancelled = (signal: AbortSignal | undefined) => {
+  if (signal?.aborted) {
+    throw new ScrapeError('CANCELLED', 'The scrape was cancelled.');
+  }
+};
+
+// Status and JSON body for any failure, in the shape every handler sends
+export const errorResponse = (error: unknown): { status: number; body: ApiErrorBody } => {
+  const { status, code, message, diagnostics } = toScrapeError(error);
+  return { status, body: { error: message, code, ...(diagnostics ? { diagnostics } : {}) } };
+};
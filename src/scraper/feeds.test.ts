@@ -0,0 +1,93 @@
+import * as cheerio from 'cheerio';
+import { discoverFeedUrls, isFeedDocument, parseFeed } from './feeds';
+
+const rss = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>Example News</title>
+    <item>
+      <title>Senate passes budget</title>
+      <link>https://example.com/news/budget</link>
+      <dc:creator>Maria Santos</dc:creator>
+      <pubDate>Tue, 02 Jan 2024 08:00:00 +0800</pubDate>
+      <description><![CDATA[<p>The <b>Senate</b> approved it.</p>]]></description>
+      <media:content url="https://example.com/img/budget.jpg" medium="image" />
+    </item>
+    <item>
+      <description>No title here</description>
+    </item>
+  </channel>
+</rss>`;
+
+const atom = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Example</title>
+  <entry>
+    <title>Typhoon update</title>
+    <link rel="self" href="https://example.com/feed/1" />
+    <link rel="alternate" href="/news/typhoon" />
+    <author><name>Jose Rizal</name></author>
+    <published>2024-01-03T10:00:00Z</published>
+    <summary>Signal No. 2 raised.</summary>
+  </entry>
+</feed>`;
+
+test('parses RSS 2.0 items into news items', () => {
+  expect(parseFeed(rss, 'https://example.com/rss', 'example.com')).toEqual([{
+    title: 'Senate passes budget',
+    author: 'Maria Santos',
+    authors: ['Maria Santos'],
+    date: '2024-01-02T00:00:00.000Z',
+    dateConfidence: 'exact',
+    source: 'example.com',
+    url: 'https://example.com/news/budget',
+    imageUrl: 'https://example.com/img/budget.jpg',
+    image: { url: 'https://example.com/img/budget.jpg' },
+    content: 'The Senate approved it.'
+  }]);
+});
+
+test('parses Atom entries using the alternate link', () => {
+  const [item] = parseFeed(atom, 'https://example.com/atom.xml', 'example.com');
+
+  expect(item.title).toBe('Typhoon update');
+  expect(item.url).toBe('https://example.com/news/typhoon');
+  expect(item.author).toBe('Jose Rizal');
+  expect(item.date).toBe('2024-01-03T10:00:00.000Z');
+  expect(item.content).toBe('Signal No. 2 raised.');
+});
+
+test('drops links and images that are not http or https', () => {
+  const hostile = `<rss version="2.0" xmlns:media="http://search.yahoo.com/mrss/"><channel>
+    <item>
+      <title>Click me</title>
+      <link>javascript:alert(document.domain)</link>
+    </item>
+    <item>
+      <title>Harmless story</title>
+      <link>https://example.com/news/harmless</link>
+      <media:thumbnail url="data:image/svg+xml,&lt;svg onload=alert(1)&gt;" />
+    </item>
+  </channel></rss>`;
+
+  const items = parseFeed(hostile, 'https://example.com/rss', 'example.com');
+  expect(items.map(item => item.url)).toEqual(['https://example.com/news/harmless']);
+  expect(items[0].imageUrl).toBeNull();
+});
+
+test('discovers advertised feeds', () => {
+  const $ = cheerio.load(`
+    <head>
+      <link rel="alternate" type="application/rss+xml" href="/feed/">
+      <link rel="alternate" type="text/html" hreflang="fil" href="/fil/">
+    </head>
+  `);
+
+  expect(discoverFeedUrls($, 'https://example.com/news/')).toEqual(['https://example.com/feed/']);
+});
+
+test('recognises feed documents', () => {
+  expect(isFeedDocument('application/rss+xml; charset=utf-8', rss)).toBe(true);
+  expect(isFeedDocument('text/xml', atom)).toBe(true);
+  expect(isFeedDocument('text/html', '<html><body>rss</body></html>')).toBe(false);
+});
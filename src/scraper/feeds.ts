@@ -0,0 +1,144 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { formatAuthors, splitAuthors } from './authors';
+import { parseDate } from './dates';
+import { pickSrcsetCandidate } from './images';
+import { ArticleImage, NewsItem } from './types';
+
+const feedTypes = ['application/rss+xml', 'application/atom+xml', 'application/feed+xml'];
+
+// A response is treated as a feed when the server says so or the markup starts like one
+export const isFeedDocument = (contentType: string | undefined, body: unknown) => {
+  if (typeof body !== 'string') return false;
+  const type = (contentType || '').toLowerCase();
+  if (feedTypes.some(feedType => type.includes(feedType))) return true;
+  if (type.includes('html')) return false;
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(rss|feed|rdf:RDF)[\s>]/i.test(body);
+};
+
+export const discoverFeedUrls = ($: CheerioAPI, pageUrl: string): string[] => {
+  const feedUrls = new Set<string>();
+  $('link[rel~="alternate"]').each((_, link) => {
+    const type = ($(link).attr('type') || '').toLowerCase();
+    const href = $(link).attr('href');
+    if (!href || !feedTypes.includes(type)) return;
+    try {
+      feedUrls.add(new URL(href, pageUrl).href);
+    } catch (e) {
+      console.log('Invalid feed URL:', href);
+    }
+  });
+  return Array.from(feedUrls);
+};
+
+const text = ($el: Cheerio<any>) => $el.first().text().trim();
+
+// Feed descriptions are usually escaped HTML; keep only the readable text
+const stripHtml = (html: string) => cheerio.load(html).root().text().replace(/\s+/g, ' ').trim();
+
+// Only web links; a feed can carry javascript: or data: URLs that would run when clicked
+const absolute = (href: string | undefined, baseUrl: string) => {
+  if (!href) return '';
+  try {
+    const url = new URL(href.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : '';
+  } catch (e) {
+    return '';
+  }
+};
+
+// Feeds often list one media:content per size; take the one that suits a card
+const imageOf = ($: CheerioAPI, $entry: Cheerio<any>, baseUrl: string): ArticleImage | null => {
+  const media = $entry.find('media\\:content[medium="image"], media\\:content[type^="image/"]').toArray()
+    .map(el => {
+      const image: ArticleImage = { url: absolute($(el).attr('url'), baseUrl) };
+      const width = Number($(el).attr('width'));
+      const height = Number($(el).attr('height'));
+      if (width > 0) image.width = width;
+      if (height > 0) image.height = height;
+      return image;
+    })
+    .filter(image => image.url);
+  const best = pickSrcsetCandidate(media);
+  if (best) return best;
+
+  const enclosure = $entry.find('enclosure').filter((_, el) => ($(el).attr('type') || '').startsWith('image/'));
+  const candidates = [
+    $entry.find('media\\:thumbnail').attr('url'),
+    enclosure.attr('url'),
+    $entry.find('media\\:content').attr('url')
+  ];
+  for (const candidate of candidates) {
+    const url = absolute(candidate, baseUrl);
+    if (url) return { url };
+  }
+  return null;
+};
+
+const parseRssItem = ($: CheerioAPI, $item: Cheerio<any>, feedUrl: string, source: string): NewsItem | null => {
+  const title = stripHtml(text($item.children('title')));
+  const url = absolute(text($item.children('link')) || text($item.children('guid[isPermaLink!="false"]')), feedUrl);
+  if (!title || !url) return null;
+
+  const authors = $item.children('dc\\:creator, author').toArray().flatMap(el => splitAuthors($(el).text()));
+  const date = parseDate(text($item.children('pubDate')) || text($item.children('dc\\:date')));
+  const content = stripHtml(text($item.children('content\\:encoded')) || text($item.children('description')));
+  const image = imageOf($, $item, feedUrl);
+
+  return {
+    title,
+    author: formatAuthors(authors),
+    authors,
+    date: date?.iso || null,
+    dateConfidence: date?.confidence || 'none',
+    source,
+    url,
+    imageUrl: image?.url || null,
+    image,
+    content: content || null
+  };
+};
+
+const parseAtomEntry = ($: CheerioAPI, $entry: Cheerio<any>, feedUrl: string, source: string): NewsItem | null => {
+  const links = $entry.children('link');
+  const alternate = links.filter((_, el) => !$(el).attr('rel') || $(el).attr('rel') === 'alternate');
+  const title = stripHtml(text($entry.children('title')));
+  const url = absolute((alternate.length ? alternate : links).first().attr('href'), feedUrl);
+  if (!title || !url) return null;
+
+  const authors = $entry.children('author').toArray().flatMap(el => splitAuthors(text($(el).children('name'))));
+  const date = parseDate(text($entry.children('published')) || text($entry.children('updated')));
+  const content = stripHtml(text($entry.children('content')) || text($entry.children('summary')));
+  const image = imageOf($, $entry, feedUrl);
+
+  return {
+    title,
+    author: formatAuthors(authors),
+    authors,
+    date: date?.iso || null,
+    dateConfidence: date?.confidence || 'none',
+    source,
+    url,
+    imageUrl: image?.url || null,
+    image,
+    content: content || null
+  };
+};
+
+// Parse an RSS 2.0 (or RSS 1.0) or Atom document into news items
+export const parseFeed = (xml: string, feedUrl: string, source: string): NewsItem[] => {
+  const $ = cheerio.load(xml, { xml: true });
+  const items: NewsItem[] = [];
+
+  $('item').each((_, item) => {
+    const newsItem = parseRssItem($, $(item), feedUrl, source);
+    if (newsItem) items.push(newsItem);
+  });
+
+  $('entry').each((_, entry) => {
+    const newsItem = parseAtomEntry($, $(entry), feedUrl, source);
+    if (newsItem) items.push(newsItem);
+  });
+
+  return items;
+};
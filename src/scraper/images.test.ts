@@ -0,0 +1,71 @@
+import * as cheerio from 'cheerio';
+import { extractImage, imageFromElement, parseSrcset, pickSrcsetCandidate } from './images';
+
+const page = 'https://news.example.com/news/typhoon';
+
+test('parses srcset candidates, commas in CDN URLs included', () => {
+  expect(parseSrcset('/img/a,w_400.jpg 400w, /img/a,w_1200.jpg 1200w,/img/b.jpg', page)).toEqual([
+    { url: 'https://news.example.com/img/a,w_400.jpg', width: 400 },
+    { url: 'https://news.example.com/img/a,w_1200.jpg', width: 1200 },
+    { url: 'https://news.example.com/img/b.jpg' }
+  ]);
+  expect(parseSrcset('small.jpg 1x, large.jpg 2x', page).map(candidate => candidate.density)).toEqual([1, 2]);
+});
+
+test('picks the smallest source wide enough for a card', () => {
+  const candidates = [{ url: 'a', width: 320 }, { url: 'b', width: 1600 }, { url: 'c', width: 960 }];
+
+  expect(pickSrcsetCandidate(candidates)?.url).toBe('c');
+  expect(pickSrcsetCandidate([{ url: 'a', width: 320 }, { url: 'b', width: 640 }])?.url).toBe('b');
+  expect(pickSrcsetCandidate([])).toBeNull();
+});
+
+test('reads picture sources and lazy-load attributes, with size and alt text', () => {
+  const $ = cheerio.load(`
+    <picture>
+      <source srcset="https://cdn.example.com/photo?w=480 480w, https://cdn.example.com/photo?w=960 960w">
+      <img src="data:image/gif;base64,R0lGOD" width="480" height="270" alt="Flooded street in Marikina">
+    </picture>
+    <img id="lazy" src="/img/placeholder.gif" data-src="/uploads/2024/07/flood" width="600" height="400">
+  `);
+
+  expect(imageFromElement($, $('picture img'), page)).toEqual({
+    url: 'https://cdn.example.com/photo?w=960',
+    width: 960,
+    height: 540,
+    alt: 'Flooded street in Marikina'
+  });
+  expect(imageFromElement($, $('#lazy'), page)).toEqual({ url: 'https://news.example.com/uploads/2024/07/flood', width: 600, height: 400 });
+});
+
+test('skips logos, icons and tracking pixels', () => {
+  const $ = cheerio.load(`
+    <img class="site-logo" src="/img/brand.png">
+    <img src="/img/share-icon.png">
+    <img src="https://www.facebook.com/tr?id=1" width="1" height="1">
+    <img src="/img/badge.svg">
+    <img src="/img/story.jpg" width="50" height="50">
+    <img src="/img/lead.jpg" alt="Typhoon icon of destruction">
+  `);
+
+  expect(extractImage($, page, [])).toEqual({
+    image: { url: 'https://news.example.com/img/lead.jpg', alt: 'Typhoon icon of destruction' },
+    source: 'selector'
+  });
+});
+
+test('prefers og:image unless it is the site logo', () => {
+  const $ = cheerio.load(`
+    <meta property="og:image" content="/img/lead.jpg">
+    <meta property="og:image:width" content="1200">
+    <meta property="og:image:alt" content="Rescuers at work">
+    <img class="featured-image" src="/img/inline.jpg">
+  `);
+  const $logo = cheerio.load('<meta property="og:image" content="/static/logo.png"><img class="featured-image" src="/img/inline.jpg">');
+
+  expect(extractImage($, page, ['img.featured-image'])).toEqual({
+    image: { url: 'https://news.example.com/img/lead.jpg', width: 1200, alt: 'Rescuers at work' },
+    source: 'opengraph'
+  });
+  expect(extractImage($logo, page, ['img.featured-image'])?.image.url).toBe('https://news.example.com/img/inline.jpg');
+});
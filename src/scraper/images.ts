@@ -0,0 +1,177 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { ArticleMetadata, meta } from './metadata';
+import { ArticleImage, FieldSource } from './types';
+
+export interface SrcsetCandidate {
+  url: string;
+  // Intrinsic width from a "800w" descriptor
+  width?: number;
+  // Pixel density from a "2x" descriptor
+  density?: number;
+}
+
+// Cards are about 400 CSS pixels wide; twice that stays sharp on high-density screens
+export const cardImageWidth = 800;
+// Images declared smaller than this are icons, badges or tracking pixels
+const minImageSize = 100;
+
+const rejectedImage = /(^|[^a-z])(logo|icon|favicon|sprite|avatar|gravatar|badge|emoji|spacer|tracking|blank|placeholder|transparent|1x1)([^a-z]|$)/i;
+const trackingPixel = /(^|\.)(doubleclick\.net|google-analytics\.com|scorecardresearch\.com|facebook\.com\/tr)|\/pixel\.(gif|png)$/i;
+const lazySrcAttributes = ['data-src', 'data-lazy-src', 'data-original', 'data-url', 'data-lazy', 'data-hi-res-src', 'src'];
+const lazySrcsetAttributes = ['data-srcset', 'data-lazy-srcset', 'srcset'];
+
+const absolute = (src: string, baseUrl: string) => {
+  try {
+    const url = new URL(src.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : '';
+  } catch (e) {
+    console.log('Invalid image URL:', src);
+    return '';
+  }
+};
+
+const dimension = (value: string | undefined) => {
+  const number = Number.parseInt(value || '', 10);
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+// Split a srcset the way browsers do: a URL runs to the next whitespace (commas
+// included, as CDN URLs often have them), then descriptors run to the next comma
+export const parseSrcset = (srcset: string, baseUrl: string): SrcsetCandidate[] => {
+  const candidates: SrcsetCandidate[] = [];
+  let i = 0;
+  while (i < srcset.length) {
+    while (i < srcset.length && /[\s,]/.test(srcset[i])) i++;
+    const start = i;
+    while (i < srcset.length && !/\s/.test(srcset[i])) i++;
+    let src = srcset.slice(start, i);
+    let descriptors = '';
+    if (src.endsWith(',')) {
+      src = src.replace(/,+$/, '');
+    } else {
+      const end = srcset.indexOf(',', i);
+      descriptors = srcset.slice(i, end === -1 ? srcset.length : end).trim();
+      i = end === -1 ? srcset.length : end + 1;
+    }
+
+    const url = src && absolute(src, baseUrl);
+    if (!url) continue;
+    const candidate: SrcsetCandidate = { url };
+    const width = descriptors.match(/^(\d+)w$/);
+    const density = descriptors.match(/^([\d.]+)x$/);
+    if (width) candidate.width = Number(width[1]);
+    if (density) candidate.density = Number(density[1]);
+    candidates.push(candidate);
+  }
+  return candidates;
+};
+
+// The smallest source at least as wide as a card needs, else the widest there is
+export const pickSrcsetCandidate = <T extends SrcsetCandidate>(candidates: T[], targetWidth = cardImageWidth): T | null => {
+  if (candidates.length === 0) return null;
+  const size = (candidate: SrcsetCandidate) =>
+    candidate.width ?? (candidate.density ? candidate.density * (targetWidth / 2) : targetWidth / 2);
+  const sorted = [...candidates].sort((a, b) => size(a) - size(b));
+  return sorted.find(candidate => size(candidate) >= targetWidth) || sorted[sorted.length - 1];
+};
+
+const isUsable = (image: ArticleImage, hints = '') => {
+  const { hostname, pathname } = new URL(image.url);
+  return !/\.svg$/i.test(pathname) &&
+    !rejectedImage.test(pathname) &&
+    !trackingPixel.test(hostname + pathname) &&
+    !rejectedImage.test(hints) &&
+    !(image.width !== undefined && image.width < minImageSize) &&
+    !(image.height !== undefined && image.height < minImageSize);
+};
+
+// Read one <img> (with its <picture> sources and lazy-load attributes). Returns
+// null for placeholders, logos and pixels.
+export const imageFromElement = ($: CheerioAPI, $img: Cheerio<any>, baseUrl: string): ArticleImage | null => {
+  const srcsets = lazySrcsetAttributes.map(name => $img.attr(name)).filter((value): value is string => Boolean(value));
+  const $picture = $img.parent('picture');
+  $picture.children('source').each((_, source) => {
+    const srcset = $(source).attr('srcset') || $(source).attr('data-srcset');
+    if (srcset) srcsets.push(srcset);
+  });
+
+  const best = pickSrcsetCandidate(srcsets.flatMap(srcset => parseSrcset(srcset, baseUrl)));
+  const src = lazySrcAttributes
+    .map(name => $img.attr(name))
+    .find(value => value && !/^data:/i.test(value) && !rejectedImage.test(value));
+  const url = best?.url || (src ? absolute(src, baseUrl) : '');
+  if (!url) return null;
+
+  const width = dimension($img.attr('width'));
+  const height = dimension($img.attr('height'));
+  const image: ArticleImage = { url };
+  // A srcset width describes the chosen file; attributes describe the displayed size
+  if (best?.width) {
+    image.width = best.width;
+    if (width && height) image.height = Math.round((best.width / width) * height);
+  } else {
+    if (width) image.width = width;
+    if (height) image.height = height;
+  }
+  const alt = ($img.attr('alt') || '').trim();
+  if (alt) image.alt = alt;
+
+  // Alt text is left out: "fashion icon" describes a person, not an icon
+  const hints = [$img.attr('class'), $img.attr('id')].filter(Boolean).join(' ');
+  // Declared sizes count even when the srcset offers a bigger file
+  const declared = { url, width, height };
+  return isUsable(image, hints) && isUsable(declared) ? image : null;
+};
+
+const fromMeta = ($: CheerioAPI, baseUrl: string, prefix: 'og:image' | 'twitter:image'): ArticleImage | null => {
+  const src = prefix === 'og:image'
+    ? meta($, 'og:image:secure_url') || meta($, 'og:image') || meta($, 'og:image:url')
+    : meta($, 'twitter:image') || meta($, 'twitter:image:src');
+  const url = src && absolute(src, baseUrl);
+  if (!url) return null;
+  const image: ArticleImage = { url };
+  const width = dimension(meta($, `${prefix}:width`));
+  const height = dimension(meta($, `${prefix}:height`));
+  const alt = meta($, `${prefix}:alt`);
+  if (width) image.width = width;
+  if (height) image.height = height;
+  if (alt) image.alt = alt;
+  return isUsable(image) ? image : null;
+};
+
+// og:image first (sites size it for sharing), then JSON-LD, Twitter cards, the
+// profile's image selectors and finally any usable image on the page
+export const extractImage = (
+  $: CheerioAPI,
+  baseUrl: string,
+  selectors: string[],
+  metadata: ArticleMetadata = {}
+): { image: ArticleImage; source: FieldSource; selector?: string } | null => {
+  const og = fromMeta($, baseUrl, 'og:image');
+  if (og) return { image: og, source: 'opengraph' };
+
+  if (metadata.imageUrl?.source === 'json-ld') {
+    const url = absolute(metadata.imageUrl.value, baseUrl);
+    if (url && isUsable({ url })) return { image: { url }, source: 'json-ld' };
+  }
+
+  const twitter = fromMeta($, baseUrl, 'twitter:image');
+  if (twitter) return { image: twitter, source: 'twitter' };
+
+  const fromImages = (elements: any[]) => {
+    for (const el of elements) {
+      const image = imageFromElement($, $(el), baseUrl);
+      if (image) return image;
+    }
+    return null;
+  };
+
+  for (const selector of selectors) {
+    const $matched = $(selector).first();
+    const image = fromImages($matched.is('img') ? $matched.toArray() : $matched.find('img').toArray());
+    if (image) return { image, source: 'selector', selector };
+  }
+
+  const anywhere = fromImages($('img').toArray());
+  return anywhere && { image: anywhere, source: 'selector' };
+};
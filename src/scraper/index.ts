@@ -0,0 +1,11 @@
+export * from './types';
+export { ScrapeError, ProfileError, toScrapeError, errorResponse, errorStatuses } from './errors';
+export { getProfile, resolveProfile, initProfiles, loadProfiles, watchProfiles } from './profiles';
+export { discoverFeedUrls, parseFeed } from './feeds';
+export { extractMetadata } from './metadata';
+export { parseDate } from './dates';
+export { splitAuthors } from './authors';
+export { extractMainContent } from './readability';
+export { scrapeNews, streamScrapeNews, scrapeArticle, scrapeRequestOptions, parseRequestBody, defaultScrapeOptions, userAgent } from './scrape';
+export { getRobotsPolicy, parseRobotsTxt, isAllowedByRobots } from './robots';
+export { responseCache } from './cache';
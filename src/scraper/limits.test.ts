@@ -0,0 +1,55 @@
+import { createOutboundBudget, createRateLimiter, isValidApiKey, parseApiKeys } from './limits';
+
+test('limits each client per window and says when to retry', () => {
+  let time = 0;
+  const limiter = createRateLimiter({ limit: 2, windowMs: 60000, now: () => time });
+
+  expect(limiter.check('a')).toEqual({ allowed: true, remaining: 1, retryAfter: 60 });
+  expect(limiter.check('a').allowed).toBe(true);
+  time = 15000;
+  expect(limiter.check('a')).toEqual({ allowed: false, remaining: 0, retryAfter: 45 });
+  expect(limiter.check('b').allowed).toBe(true);
+
+  time = 60000;
+  expect(limiter.check('a').allowed).toBe(true);
+});
+
+test('reads API keys from a comma-separated list', () => {
+  const keys = parseApiKeys(' alpha, beta ,,');
+
+  expect(keys).toEqual(['alpha', 'beta']);
+  expect(parseApiKeys(undefined)).toEqual([]);
+  expect(isValidApiKey(keys, 'beta')).toBe(true);
+  expect(isValidApiKey(keys, 'gamma')).toBe(false);
+  expect(isValidApiKey(keys, undefined)).toBe(false);
+});
+
+test('caps outbound requests and lets waiting clients take turns', async () => {
+  const budget = createOutboundBudget(1);
+  const served: string[] = [];
+  const request = async (client: string) => {
+    const release = await budget.forClient(client)();
+    served.push(client);
+    release();
+  };
+
+  const first = await budget.forClient('busy')();
+  const queued = [request('busy'), request('busy'), request('busy'), request('quiet')];
+  expect(budget.status()).toEqual({ active: 1, queued: 4, limit: 1 });
+
+  first();
+  await Promise.all(queued);
+
+  expect(served).toEqual(['busy', 'quiet', 'busy', 'busy']);
+  expect(budget.status()).toEqual({ active: 0, queued: 0, limit: 1 });
+});
+
+test('ignores a second release of the same slot', async () => {
+  const budget = createOutboundBudget(2);
+  const release = await budget.forClient('a')();
+  await budget.forClient('a')();
+
+  release();
+  release();
+  expect(budget.status().active).toBe(1);
+});
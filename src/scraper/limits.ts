@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import { OutboundSlot } from './types';
+
+export interface RateLimitOptions {
+  // Requests each client may make per window
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the client's window resets; sent as Retry-After when refused
+  retryAfter: number;
+}
+
+export interface OutboundBudget {
+  // A slot function for one client's scrapes, to pass as ScrapeOptions.outboundSlot
+  forClient: (client: string) => OutboundSlot;
+  status: () => { active: number; queued: number; limit: number };
+}
+
+// Fixed-window request counts per client key (an API key or an IP address)
+export const createRateLimiter = ({ limit, windowMs, now = Date.now }: RateLimitOptions) => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const check = (client: string): RateLimitDecision => {
+    const time = now();
+    let window = windows.get(client);
+    if (!window || time - window.startedAt >= windowMs) {
+      window = { startedAt: time, count: 0 };
+      windows.set(client, window);
+    }
+    const retryAfter = Math.max(1, Math.ceil((window.startedAt + windowMs - time) / 1000));
+    if (window.count >= limit) {
+      return { allowed: false, remaining: 0, retryAfter };
+    }
+    window.count++;
+    return { allowed: true, remaining: limit - window.count, retryAfter };
+  };
+
+  // Forget clients whose window has ended so the map does not grow forever
+  const prune = () => {
+    const time = now();
+    windows.forEach((window, client) => {
+      if (time - window.startedAt >= windowMs) windows.delete(client);
+    });
+  };
+
+  return { check, prune };
+};
+
+// Comma-separated keys from the environment; an empty list turns authentication off
+export const parseApiKeys = (value: string | undefined) =>
+  (value || '').split(',').map(key => key.trim()).filter(Boolean);
+
+// Compared in constant time so response timing does not reveal a key
+export const isValidApiKey = (keys: string[], candidate: string | undefined) => {
+  if (!candidate) return false;
+  const digest = crypto.createHash('sha256').update(candidate).digest();
+  return keys.some(key => crypto.timingSafeEqual(crypto.createHash('sha256').update(key).digest(), digest));
+};
+
+// A cap on outbound requests shared by every scrape on the server. Waiting
+// clients take turns, so one client's large scrape cannot starve the others.
+export const createOutboundBudget = (limit: number): OutboundBudget => {
+  let active = 0;
+  // Clients in the order they are served, each with its own queue
+  const waiting = new Map<string, (() => void)[]>();
+
+  const next = () => {
+    for (const [client, queue] of Array.from(waiting.entries())) {
+      const resolve = queue.shift();
+      waiting.delete(client);
+      // Back of the line after being served
+      if (queue.length > 0) waiting.set(client, queue);
+      if (resolve) {
+        active++;
+        resolve();
+        return;
+      }
+    }
+  };
+
+  const release = () => {
+    active--;
+    next();
+  };
+
+  const forClient = (client: string): OutboundSlot => async () => {
+    if (active < limit && waiting.size === 0) {
+      active++;
+    } else {
+      await new Promise<void>(resolve => {
+        const queue = waiting.get(client) || [];
+        queue.push(resolve);
+        waiting.set(client, queue);
+      });
+    }
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      release();
+    };
+  };
+
+  const status = () => ({
+    active,
+    queued: Array.from(waiting.values()).reduce((total, queue) => total + queue.length, 0),
+    limit
+  });
+
+  return { forClient, status };
+};
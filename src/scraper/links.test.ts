@@ -0,0 +1,69 @@
+import * as cheerio from 'cheerio';
+import { classifyLinks, collectLinkCandidates } from './links';
+import { getProfile } from './profiles';
+import { SiteProfile } from './types';
+
+const pageUrl = 'https://news.example.com/';
+const profile = getProfile('example.com');
+
+const classify = (html: string, site: SiteProfile = profile, sitemapUrls?: Set<string>) => {
+  const $ = cheerio.load(html);
+  return classifyLinks(collectLinkCandidates($, pageUrl, site.selectors.article), pageUrl, site, sitemapUrls);
+};
+
+test('accepts dated, slugged and id-style article URLs', () => {
+  const { accepted } = classify(`
+    <a href="/news/2024/07/01/typhoon">Typhoon</a>
+    <a href="/senate-passes-the-2025-national-budget">Senate passes the 2025 national budget</a>
+    <a href="/nation/1234567/flood-warning.html">Flood warning</a>
+  `);
+
+  expect(accepted).toEqual([
+    'https://news.example.com/news/2024/07/01/typhoon',
+    'https://news.example.com/senate-passes-the-2025-national-budget',
+    'https://news.example.com/nation/1234567/flood-warning.html'
+  ]);
+});
+
+test('rejects section, tag and off-site links with reasons', () => {
+  const { accepted, rejected } = classify(`
+    <a href="/news/">News</a>
+    <a href="/tag/weather">Weather</a>
+    <a href="https://other.example.org/news/2024/07/01/story">Elsewhere</a>
+    <a href="https://www.example.com/live/news/2024/07/01/story">Same site</a>
+    <a href="/">Home</a>
+  `);
+
+  expect(accepted).toEqual(['https://www.example.com/live/news/2024/07/01/story']);
+  expect(rejected.map(link => link.url)).toEqual([
+    'https://news.example.com/news/',
+    'https://news.example.com/tag/weather',
+    'https://other.example.org/news/2024/07/01/story',
+    'https://news.example.com/'
+  ]);
+  expect(rejected[1].reasons).toContain('-4 tag, category, author or utility page');
+  expect(rejected[2]).toEqual({ url: 'https://other.example.org/news/2024/07/01/story', score: null, reasons: ['off-site link to other.example.org'] });
+});
+
+test('merges duplicate links and keeps the longest anchor text', () => {
+  const $ = cheerio.load(`
+    <article><a href="/briefs/storm#top"><img src="/a.jpg"></a></article>
+    <a href="/briefs/storm">Storm signal raised over five provinces</a>
+  `);
+
+  expect(collectLinkCandidates($, pageUrl, ['article'])).toEqual([
+    { url: 'https://news.example.com/briefs/storm', text: 'Storm signal raised over five provinces', inContainer: true }
+  ]);
+});
+
+test('profile patterns and sitemap membership count', () => {
+  const strict = { ...profile, linkPatterns: { include: ['/briefs/'], exclude: ['/briefs/sponsored'] } };
+  const { accepted, rejected } = classify(`
+    <a href="/briefs/storm-signal-raised">Storm</a>
+    <a href="/briefs/sponsored-post">Sponsored</a>
+    <a href="/x/abc">Abc</a>
+  `, strict, new Set(['https://news.example.com/x/abc']));
+
+  expect(accepted).toEqual(['https://news.example.com/briefs/storm-signal-raised', 'https://news.example.com/x/abc']);
+  expect(rejected[0].reasons).toEqual(['matches exclude pattern /briefs/sponsored']);
+});
@@ -0,0 +1,131 @@
+import type { CheerioAPI } from 'cheerio';
+import { getDomain } from 'tldts';
+import { RejectedLink, SiteProfile } from './types';
+
+export interface LinkCandidate {
+  url: string;
+  // Longest anchor text seen for this URL
+  text: string;
+  // Found inside one of the profile's article containers
+  inContainer: boolean;
+}
+
+export interface LinkClassification {
+  accepted: string[];
+  rejected: RejectedLink[];
+}
+
+// Links scoring at least this much are treated as articles
+export const acceptScore = 3;
+
+const indexSegments = /^(tags?|category|categories|topics?|sections?|authors?|page|search|archives?|profile|about|contact|subscribe|newsletters?|login|register|account|video|videos|gallery|galleries|photos)$/i;
+const fileExtensions = /\.(jpe?g|png|gif|webp|svg|ico|pdf|zip|mp3|mp4|xml|rss|json|css|js)$/i;
+const pageExtensions = /\.(html?|php|aspx?)$/i;
+const datePath = /(^|\/)\d{4}[/-]\d{1,2}[/-]\d{1,2}(\/|-|$)/;
+
+const normalise = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const siteOf = (hostname: string) => getDomain(hostname, { allowPrivateDomains: true }) || hostname;
+
+// Every anchor on the page, merged by URL (fragments dropped), in document order
+export const collectLinkCandidates = ($: CheerioAPI, pageUrl: string, containerSelectors: string[]): LinkCandidate[] => {
+  const containers = new Set(containerSelectors.length ? $(containerSelectors.join(', ')).find('a').toArray() : []);
+  const candidates = new Map<string, LinkCandidate>();
+
+  $('a[href]').each((_, link) => {
+    const href = $(link).attr('href') || '';
+    let url: URL;
+    try {
+      url = new URL(href.trim(), pageUrl);
+    } catch (e) {
+      console.log('Invalid article URL:', href);
+      return;
+    }
+    url.hash = '';
+
+    const text = normalise($(link).text());
+    const existing = candidates.get(url.href);
+    if (existing) {
+      if (text.length > existing.text.length) existing.text = text;
+      existing.inContainer = existing.inContainer || containers.has(link);
+    } else {
+      candidates.set(url.href, { url: url.href, text, inContainer: containers.has(link) });
+    }
+  });
+  return Array.from(candidates.values());
+};
+
+// Score one candidate; hard rules return -Infinity with the single reason that ruled it out
+const scoreLink = (candidate: LinkCandidate, page: URL, profile: SiteProfile, sitemapUrls: Set<string>) => {
+  const reasons: string[] = [];
+  const url = new URL(candidate.url);
+  const reject = (reason: string) => ({ score: -Infinity, reasons: [reason] });
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return reject(`not a web page (${url.protocol})`);
+  if (siteOf(url.hostname) !== siteOf(page.hostname)) return reject(`off-site link to ${url.hostname}`);
+  if (url.pathname === '/' && !url.search) return reject('the site home page');
+  if (url.href === page.href.split('#')[0]) return reject('links back to the listing page');
+  if (fileExtensions.test(url.pathname)) return reject('not an HTML page');
+
+  const exclude = (profile.linkPatterns?.exclude || []).find(pattern => new RegExp(pattern).test(candidate.url));
+  if (exclude) return reject(`matches exclude pattern ${exclude}`);
+
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(`${points > 0 ? '+' : ''}${points} ${reason}`);
+  };
+
+  if (sitemapUrls.has(candidate.url)) add(5, 'listed in the sitemap');
+  if ((profile.linkPatterns?.include || []).some(pattern => new RegExp(pattern).test(candidate.url))) {
+    add(3, 'matches a profile include pattern');
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  const lastSegment = segments[segments.length - 1] || '';
+  const last = lastSegment.replace(pageExtensions, '');
+  const words = last.split(/[-_]+/).filter(word => /[a-z]/i.test(word)).length;
+
+  if (datePath.test(url.pathname)) add(3, 'dated path');
+  if (words >= 4) {
+    add(3, 'descriptive slug');
+  } else if (words === 3) {
+    add(2, 'short slug');
+  } else if (/^[a-z]{1,20}$/i.test(lastSegment)) {
+    add(-2, 'single-word path looks like a section');
+  }
+  if (/(^|\D)\d{5,}(\D|$)/.test(url.pathname)) add(2, 'numeric article id');
+  if (pageExtensions.test(url.pathname)) add(1, 'page file extension');
+  if (segments.some(segment => indexSegments.test(segment))) add(-4, 'tag, category, author or utility page');
+  if (/(^|&)(page|p|pg)=\d+/.test(url.search.slice(1))) add(-2, 'pagination link');
+
+  const textWords = candidate.text ? candidate.text.split(' ').length : 0;
+  if (textWords >= 5 || candidate.text.length >= 30) add(2, 'headline-length anchor text');
+  if (candidate.inContainer) add(1, 'inside an article container');
+
+  return { score, reasons };
+};
+
+// Decide which links on a listing page lead to articles. URL shape, anchor text,
+// same-site checks, the profile's link patterns and sitemap membership all count;
+// rejected links keep their score and reasons for debugging.
+export const classifyLinks = (
+  candidates: LinkCandidate[],
+  pageUrl: string,
+  profile: SiteProfile,
+  sitemapUrls: Set<string> = new Set()
+): LinkClassification => {
+  const page = new URL(pageUrl);
+  const accepted: string[] = [];
+  const rejected: RejectedLink[] = [];
+
+  candidates.forEach(candidate => {
+    const { score, reasons } = scoreLink(candidate, page, profile, sitemapUrls);
+    if (score >= acceptScore) {
+      accepted.push(candidate.url);
+    } else {
+      rejected.push({ url: candidate.url, score: Number.isFinite(score) ? score : null, reasons });
+    }
+  });
+  return { accepted, rejected };
+};
@@ -0,0 +1,56 @@
+import * as cheerio from 'cheerio';
+import { extractCanonicalUrl, extractMetadata } from './metadata';
+
+test('reads NewsArticle JSON-LD inside a graph', () => {
+  const $ = cheerio.load(`
+    <script type="application/ld+json">
+      {"@context": "https://schema.org", "@graph": [
+        {"@type": "WebSite", "name": "Example News"},
+        {"@type": "NewsArticle", "headline": "Storm signal lifted",
+         "author": [{"@type": "Person", "name": "Ana Reyes"}, {"@type": "Person", "name": "Ben Cruz"}],
+         "datePublished": "2024-01-02T08:00:00+08:00",
+         "image": {"@type": "ImageObject", "url": "https://example.com/storm.jpg"}}
+      ]}
+    </script>
+  `);
+
+  expect(extractMetadata($)).toEqual({
+    title: { value: 'Storm signal lifted', source: 'json-ld' },
+    author: { value: 'Ana Reyes, Ben Cruz', source: 'json-ld' },
+    date: { value: '2024-01-02T08:00:00+08:00', source: 'json-ld' },
+    imageUrl: { value: 'https://example.com/storm.jpg', source: 'json-ld' }
+  });
+});
+
+test('falls back from OpenGraph to Twitter cards per field', () => {
+  const $ = cheerio.load(`
+    <meta property="og:title" content="OG title">
+    <meta property="article:author" content="https://facebook.com/someone">
+    <meta property="article:published_time" content="2024-01-02">
+    <meta name="twitter:title" content="Twitter title">
+    <meta name="twitter:image" content="https://example.com/card.jpg">
+    <meta name="twitter:description" content="Card summary">
+  `);
+
+  expect(extractMetadata($)).toEqual({
+    title: { value: 'OG title', source: 'opengraph' },
+    date: { value: '2024-01-02', source: 'opengraph' },
+    imageUrl: { value: 'https://example.com/card.jpg', source: 'twitter' },
+    description: { value: 'Card summary', source: 'twitter' }
+  });
+});
+
+test('ignores malformed JSON-LD', () => {
+  const $ = cheerio.load('<script type="application/ld+json">{ not json</script>');
+
+  expect(extractMetadata($)).toEqual({});
+});
+
+test('reads the canonical URL from the link tag, then og:url', () => {
+  const linked = cheerio.load('<link rel="canonical" href="/news/story"><meta property="og:url" content="https://example.com/og">');
+  const og = cheerio.load('<meta property="og:url" content="https://example.com/og">');
+
+  expect(extractCanonicalUrl(linked, 'https://example.com/amp/story')).toBe('https://example.com/news/story');
+  expect(extractCanonicalUrl(og, 'https://example.com/amp/story')).toBe('https://example.com/og');
+  expect(extractCanonicalUrl(cheerio.load('<p></p>'), 'https://example.com/')).toBeUndefined();
+});
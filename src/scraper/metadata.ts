@@ -0,0 +1,124 @@
+import type { CheerioAPI } from 'cheerio';
+import { FieldSource } from './types';
+
+export type MetadataField = 'title' | 'author' | 'date' | 'imageUrl' | 'description';
+
+export interface ExtractedField {
+  value: string;
+  source: FieldSource;
+}
+
+export type ArticleMetadata = Partial<Record<MetadataField, ExtractedField>>;
+
+const articleTypes = ['Article', 'NewsArticle', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'OpinionNewsArticle', 'BlogPosting', 'Report'];
+
+const isArticle = (node: any) => {
+  const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return types.some((type: unknown) => typeof type === 'string' && articleTypes.includes(type));
+};
+
+// Flatten top-level arrays and @graph containers into a list of nodes
+const jsonLdNodes = ($: CheerioAPI) => {
+  const nodes: any[] = [];
+  const visit = (value: any) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      nodes.push(value);
+      if (value['@graph']) visit(value['@graph']);
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      visit(JSON.parse($(script).html() || ''));
+    } catch (e) {
+      console.log('Invalid JSON-LD block');
+    }
+  });
+  return nodes;
+};
+
+const names = (value: any): string => {
+  if (!value) return '';
+  if (typeof value === 'string') return value.trim();
+  if (Array.isArray(value)) return value.map(names).filter(Boolean).join(', ');
+  return typeof value.name === 'string' ? value.name.trim() : '';
+};
+
+const imageUrlOf = (value: any): string => {
+  if (!value) return '';
+  if (typeof value === 'string') return value.trim();
+  if (Array.isArray(value)) return imageUrlOf(value[0]);
+  return typeof value.url === 'string' ? value.url.trim() : '';
+};
+
+const fromJsonLd = ($: CheerioAPI): Partial<Record<MetadataField, string>> => {
+  const article = jsonLdNodes($).find(isArticle);
+  if (!article) return {};
+  return {
+    title: typeof article.headline === 'string' ? article.headline.trim() : names(article.name),
+    author: names(article.author),
+    date: typeof article.datePublished === 'string' ? article.datePublished.trim() : '',
+    imageUrl: imageUrlOf(article.image),
+    description: typeof article.description === 'string' ? article.description.trim() : ''
+  };
+};
+
+export const meta = ($: CheerioAPI, key: string) =>
+  ($(`meta[property="${key}"]`).attr('content') || $(`meta[name="${key}"]`).attr('content') || '').trim();
+
+// article:author is often a profile URL rather than a name
+const metaAuthor = ($: CheerioAPI) => {
+  const author = meta($, 'article:author');
+  return /^https?:\/\//.test(author) ? '' : author;
+};
+
+const fromOpenGraph = ($: CheerioAPI): Partial<Record<MetadataField, string>> => ({
+  title: meta($, 'og:title'),
+  author: metaAuthor($),
+  date: meta($, 'article:published_time'),
+  imageUrl: meta($, 'og:image:secure_url') || meta($, 'og:image'),
+  description: meta($, 'og:description')
+});
+
+const fromTwitter = ($: CheerioAPI): Partial<Record<MetadataField, string>> => ({
+  title: meta($, 'twitter:title'),
+  imageUrl: meta($, 'twitter:image') || meta($, 'twitter:image:src'),
+  description: meta($, 'twitter:description')
+});
+
+// Read structured data in order of trust: JSON-LD, OpenGraph/article tags, then Twitter cards
+export const extractMetadata = ($: CheerioAPI): ArticleMetadata => {
+  const layers: [FieldSource, Partial<Record<MetadataField, string>>][] = [
+    ['json-ld', fromJsonLd($)],
+    ['opengraph', fromOpenGraph($)],
+    ['twitter', fromTwitter($)]
+  ];
+  const metadata: ArticleMetadata = {};
+
+  for (const [source, values] of layers) {
+    (Object.keys(values) as MetadataField[]).forEach(field => {
+      const value = values[field];
+      if (value && !metadata[field]) {
+        metadata[field] = { value, source };
+      }
+    });
+  }
+  return metadata;
+};
+
+// The address the page names for itself, from <link rel="canonical"> or og:url
+export const extractCanonicalUrl = ($: CheerioAPI, pageUrl: string): string | undefined => {
+  const candidates = [$('link[rel~="canonical"]').attr('href'), meta($, 'og:url')];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const url = new URL(candidate.trim(), pageUrl);
+      if (url.protocol === 'http:' || url.protocol === 'https:') return url.href;
+    } catch (e) {
+      console.log('Invalid canonical URL:', candidate);
+    }
+  }
+  return undefined;
+};
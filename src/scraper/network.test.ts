@@ -0,0 +1,104 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { checkRedirect, isPrivateAddress, publicGet, publicLookup, publicUrl } from './network';
+
+test('recognises private, loopback and link-local addresses', () => {
+  expect(isPrivateAddress('127.0.0.1')).toBe(true);
+  expect(isPrivateAddress('10.1.2.3')).toBe(true);
+  expect(isPrivateAddress('172.20.0.5')).toBe(true);
+  expect(isPrivateAddress('192.168.1.1')).toBe(true);
+  expect(isPrivateAddress('169.254.169.254')).toBe(true);
+  expect(isPrivateAddress('::1')).toBe(true);
+  expect(isPrivateAddress('fd00::1')).toBe(true);
+  expect(isPrivateAddress('8.8.8.8')).toBe(false);
+  expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  expect(isPrivateAddress('news.example.com')).toBe(false);
+});
+
+test('sees through IPv4-mapped IPv6 addresses', () => {
+  expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+  expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+  expect(isPrivateAddress('::ffff:808:808')).toBe(false);
+});
+
+test('only accepts public http(s) URLs', () => {
+  expect(publicUrl('https://news.example.com/a.jpg').hostname).toBe('news.example.com');
+  expect(() => publicUrl('not a url')).toThrow('Invalid URL format');
+  expect(() => publicUrl('file:///etc/passwd')).toThrow(expect.objectContaining({ status: 400 }));
+  expect(() => publicUrl('http://127.0.0.1:5000/api/test')).toThrow(expect.objectContaining({ status: 403 }));
+  expect(() => publicUrl('http://[::1]/')).toThrow(expect.objectContaining({ status: 403 }));
+});
+
+test('holds redirects to the same rules', () => {
+  expect(() => checkRedirect({ protocol: 'https:', hostname: 'cdn.example.com' })).not.toThrow();
+  expect(() => checkRedirect({ protocol: 'http:', hostname: '169.254.169.254' })).toThrow(expect.objectContaining({ status: 403 }));
+  expect(() => checkRedirect({ protocol: 'http:', hostname: '::1' })).toThrow(expect.objectContaining({ status: 403 }));
+});
+
+test('refuses names that resolve to private addresses', async () => {
+  await expect(publicLookup('localhost')).rejects.toMatchObject({ status: 403, code: 'BLOCKED_ADDRESS' });
+  await expect(publicGet('http://localhost/')).rejects.toMatchObject({ status: 403, code: 'BLOCKED_ADDRESS' });
+  await expect(publicGet('http://169.254.169.254/latest/meta-data/')).rejects.toMatchObject({ code: 'BLOCKED_ADDRESS' });
+  await expect(publicGet('ftp://news.example.com/')).rejects.toMatchObject({ status: 400, code: 'INVALID_URL' });
+});
+
+test('caps response size and checks the content type', async () => {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/big') {
+      res.setHeader('Content-Type', 'text/html');
+      res.end('x'.repeat(2048));
+    } else if (req.url === '/file.zip') {
+      res.setHeader('Content-Type', 'application/zip');
+      res.end('PK');
+    } else {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.end('<html></html>');
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.ALLOW_PRIVATE_NETWORKS = 'true';
+
+  try {
+    let local: typeof import('./network') = {} as any;
+    jest.isolateModules(() => {
+      local = require('./network');
+    });
+    const options = { contentTypes: ['text/html'], maxBytes: 1024 };
+
+    expect((await local.publicGet(`${base}/page`, options)).data).toBe('<html></html>');
+    await expect(local.publicGet(`${base}/big`, options)).rejects.toMatchObject({ code: 'RESPONSE_TOO_LARGE' });
+    await expect(local.publicGet(`${base}/file.zip`, options)).rejects.toMatchObject({ status: 415, code: 'UNSUPPORTED_CONTENT' });
+  } finally {
+    delete process.env.ALLOW_PRIVATE_NETWORKS;
+    server.close();
+  }
+});
+
+test('reports a redirect to a private address as blocked', async () => {
+  const server = http.createServer((req, res) => {
+    res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+    res.end();
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // Only the test server is let through
+  process.env.ALLOW_PRIVATE_NETWORKS = '127.0.0.1';
+
+  try {
+    let local: typeof import('./network') = {} as any;
+    let errors: typeof import('./errors') = {} as any;
+    jest.isolateModules(() => {
+      local = require('./network');
+      errors = require('./errors');
+    });
+
+    const failure = await local.publicGet(`${base}/story`).catch(error => error);
+    expect(failure).toMatchObject({ status: 403, code: 'BLOCKED_ADDRESS' });
+    expect(errors.toScrapeError(failure)).toBe(failure);
+    expect(() => local.publicUrl('http://10.0.0.1/')).toThrow(expect.objectContaining({ code: 'BLOCKED_ADDRESS' }));
+  } finally {
+    delete process.env.ALLOW_PRIVATE_NETWORKS;
+    server.close();
+  }
+});
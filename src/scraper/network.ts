@@ -0,0 +1,172 @@
+import axios, { AxiosResponse, ResponseType } from 'axios';
+import dns from 'dns';
+import net from 'net';
+import { ScrapeError, scrapeErrorCause } from './errors';
+
+export interface PublicGetOptions {
+  headers?: Record<string, string>;
+  timeout?: number;
+  responseType?: ResponseType;
+  validateStatus?: (status: number) => boolean;
+  // Largest body accepted, in bytes (after decompression)
+  maxBytes?: number;
+  // Content types a successful response may have, as prefixes; a missing header passes
+  contentTypes?: string[];
+  // Redirects followed; with 0 a 3xx response is returned as it is
+  maxRedirects?: number;
+  // Cancels the request when aborted
+  signal?: AbortSignal;
+}
+
+// The headless browser's requests, which are not always GETs
+export interface PublicRequestOptions extends PublicGetOptions {
+  method?: string;
+  data?: Buffer;
+}
+
+// Pages, feeds and sitemaps; news pages are rarely over 2 MB
+export const maxPageBytes = 5 * 1024 * 1024;
+export const pageContentTypes = [
+  'text/html', 'application/xhtml+xml', 'text/xml', 'application/xml', 'application/rss+xml', 'application/x-rss+xml',
+  'application/atom+xml', 'application/feed+xml', 'application/rdf+xml', 'text/plain'
+];
+const maxRedirects = 5;
+
+// Local development scrapes test pages on localhost; never set this in production.
+// `true` allows every private address, and a comma-separated list of addresses
+// or ranges (127.0.0.1, 10.0.0.0/8) allows only those.
+const allowSetting = process.env.ALLOW_PRIVATE_NETWORKS || '';
+export const allowPrivateNetworks = allowSetting === 'true';
+
+// Loopback, private, link-local, carrier-grade NAT, documentation, multicast and reserved ranges
+const blocked = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blocked.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blocked.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// The IPv4 address inside ::ffff:a.b.c.d or ::ffff:7f00:1
+const mappedIpv4 = (address: string) => {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) return dotted[1];
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (!hex) return null;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+};
+
+// An address with its family, mapped IPv6 addresses as plain IPv4
+const normalized = (address: string): [string, 'ipv4' | 'ipv6'] | null => {
+  const family = net.isIP(address);
+  if (!family) return null;
+  const ipv4 = family === 4 ? address : mappedIpv4(address);
+  return ipv4 ? [ipv4, 'ipv4'] : [address, 'ipv6'];
+};
+
+const allowed = new net.BlockList();
+allowSetting.split(',').map(entry => entry.trim().split('/')).forEach(([address, prefix]) => {
+  const entry = normalized(address);
+  if (!entry) return;
+  if (prefix) allowed.addSubnet(entry[0], Number(prefix), entry[1]);
+  else allowed.addAddress(entry[0], entry[1]);
+});
+
+export const isPrivateAddress = (address: string) => {
+  const entry = normalized(address);
+  return entry ? blocked.check(...entry) : false;
+};
+
+// Private and not let through by ALLOW_PRIVATE_NETWORKS
+const isRefusedAddress = (address: string) => {
+  const entry = normalized(address);
+  return !allowPrivateNetworks && isPrivateAddress(address) && !(entry && allowed.check(...entry));
+};
+
+// Only web URLs, and never a private address written into the URL itself
+export const publicUrl = (value: string) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (e) {
+    throw new ScrapeError('INVALID_URL', 'Invalid URL format');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ScrapeError('INVALID_URL', `Only http and https URLs can be fetched, not ${url.protocol}`);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isRefusedAddress(hostname)) {
+    throw new ScrapeError('BLOCKED_ADDRESS', `${url.hostname} is a private network address.`);
+  }
+  return url;
+};
+
+// DNS lookup for axios that refuses names resolving to private addresses. It runs
+// for every connection, redirects included, so a name cannot be re-pointed between
+// a check and the request.
+export const publicLookup = async (hostname: string, _options?: unknown) => {
+  const addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  if (addresses.some(({ address }) => isRefusedAddress(address))) {
+    throw new ScrapeError('BLOCKED_ADDRESS', `${hostname} resolves to a private network address.`);
+  }
+  return addresses[0];
+};
+
+// For fetches outside axios, such as the headless browser's navigations
+export const checkPublicUrl = async (value: string) => {
+  const url = publicUrl(value);
+  await publicLookup(url.hostname.replace(/^\[|\]$/g, ''));
+  return url;
+};
+
+// For axios' beforeRedirect: redirects are held to the same rules as the first URL
+export const checkRedirect = (options: { protocol?: string; hostname?: string; host?: string }) => {
+  const host = options.hostname || options.host || '';
+  publicUrl(`${options.protocol || 'http:'}//${host.includes(':') && !host.startsWith('[') ? `[${host}]` : host}/`);
+};
+
+// The one way the scraper reaches the web: public http(s) addresses only, checked
+// again on every redirect and DNS lookup, with a size limit and an expected content type
+export const publicRequest = async <T = any>(url: string, options: PublicRequestOptions = {}): Promise<AxiosResponse<T>> => {
+  const target = publicUrl(url);
+  const maxBytes = options.maxBytes ?? maxPageBytes;
+  let response: AxiosResponse<T>;
+  try {
+    response = await axios.request<T>({
+      url: target.href,
+      method: options.method || 'GET',
+      data: options.data,
+      // lookup and beforeRedirect are only honoured by the Node adapter
+      adapter: 'http',
+      headers: options.headers,
+      timeout: options.timeout ?? 10000,
+      responseType: options.responseType,
+      validateStatus: options.validateStatus,
+      maxRedirects: options.maxRedirects ?? maxRedirects,
+      maxContentLength: maxBytes,
+      signal: options.signal,
+      lookup: publicLookup,
+      beforeRedirect: checkRedirect
+    });
+  } catch (error: any) {
+    const refusal = scrapeErrorCause(error);
+    if (refusal) throw refusal;
+    if (/maxContentLength/.test(error?.message)) {
+      throw new ScrapeError('RESPONSE_TOO_LARGE', `${target.hostname} sent more than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+    }
+    throw error;
+  }
+
+  const contentType = String(response.headers['content-type'] || '').toLowerCase();
+  const succeeded = response.status >= 200 && response.status < 300;
+  if (succeeded && options.contentTypes && contentType && !options.contentTypes.some(type => contentType.startsWith(type))) {
+    throw new ScrapeError('UNSUPPORTED_CONTENT', `${target.hostname} sent ${contentType.split(';')[0]}, which is not a supported content type.`);
+  }
+  return response;
+};
+
+export const publicGet = <T = any>(url: string, options: PublicGetOptions = {}) => publicRequest<T>(url, options);
@@ -0,0 +1,31 @@
+import * as cheerio from 'cheerio';
+import { loadMoreUrl, nextPageUrl, readLoadMore } from './pagination';
+
+const listing = 'https://news.example.com/news/';
+
+test('follows the next link before any template', () => {
+  const $ = cheerio.load('<a class="next" href="/news/?p=2">Next</a><link rel="next" href="/news/page/2">');
+
+  expect(nextPageUrl($, listing, listing, 2, { nextSelector: 'a.next', pageParam: 'page' })).toBe('https://news.example.com/news/?p=2');
+  expect(nextPageUrl($, listing, listing, 2)).toBe('https://news.example.com/news/page/2');
+});
+
+test('builds page URLs from a template or a page parameter', () => {
+  const $ = cheerio.load('<p>No pager</p>');
+
+  expect(nextPageUrl($, listing, listing, 3, { pageUrlTemplate: 'page/{page}/' })).toBe('https://news.example.com/news/page/3/');
+  expect(nextPageUrl($, listing, listing, 2, { pageParam: 'page', startPage: 1 })).toBe('https://news.example.com/news/?page=1');
+  expect(nextPageUrl($, listing, listing, 2)).toBeNull();
+});
+
+test('reads article URLs or HTML from load-more responses', () => {
+  const rules = { loadMore: { url: '/api/more?page={page}&offset={offset}', itemsPath: 'data.items', urlField: 'link' } };
+
+  expect(loadMoreUrl(rules, listing, 2, 12)).toBe('https://news.example.com/api/more?page=2&offset=12');
+  expect(readLoadMore({ data: { items: [{ link: '/news/a' }, { title: 'no link' }] } }, rules, listing))
+    .toEqual({ urls: ['https://news.example.com/news/a'] });
+  expect(readLoadMore('{"data":{"items":"<a href=\\"/news/b\\">B</a>"}}', rules, listing))
+    .toEqual({ html: '<a href="/news/b">B</a>' });
+  expect(readLoadMore(['https://news.example.com/news/c'], { loadMore: { url: '/more' } }, listing))
+    .toEqual({ urls: ['https://news.example.com/news/c'] });
+});
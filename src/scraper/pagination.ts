@@ -0,0 +1,79 @@
+import type { CheerioAPI } from 'cheerio';
+import { PaginationRules } from './types';
+
+// Followed when a profile has no nextSelector of its own
+const relNextSelector = 'link[rel~="next"], a[rel~="next"]';
+
+// Never follow more listing pages than this in one request
+export const maxPagesLimit = 20;
+
+const fill = (template: string, values: Record<string, number>) =>
+  template.replace(/\{(page|offset)\}/g, (_, name: string) => String(values[name]));
+
+const resolve = (href: string | undefined, baseUrl: string) => {
+  if (!href) return null;
+  try {
+    const url = new URL(href.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch (e) {
+    console.log('Invalid page URL:', href);
+    return null;
+  }
+};
+
+// URL of listing page number `page` (the submitted page is page 1), from the
+// next link on the current page, then the profile's URL template or page parameter
+export const nextPageUrl = (
+  $: CheerioAPI | null,
+  currentUrl: string,
+  listingUrl: string,
+  page: number,
+  rules: PaginationRules = {}
+) => {
+  if ($) {
+    const next = resolve($(rules.nextSelector || relNextSelector).first().attr('href'), currentUrl);
+    if (next) return next;
+  }
+
+  const number = page - 2 + (rules.startPage ?? 2);
+  if (rules.pageUrlTemplate) {
+    return resolve(fill(rules.pageUrlTemplate, { page: number, offset: 0 }), listingUrl);
+  }
+  if (rules.pageParam) {
+    const url = new URL(listingUrl);
+    url.searchParams.set(rules.pageParam, String(number));
+    return url.href;
+  }
+  return null;
+};
+
+export const loadMoreUrl = (rules: PaginationRules, listingUrl: string, page: number, offset: number) => {
+  if (!rules.loadMore) return null;
+  return resolve(fill(rules.loadMore.url, { page: page - 2 + (rules.startPage ?? 2), offset }), listingUrl);
+};
+
+const valueAt = (data: any, dotPath: string | undefined) =>
+  (dotPath || '').split('.').filter(Boolean).reduce((value, key) => (value == null ? undefined : value[key]), data);
+
+// A load-more response holds either a list of articles (URLs or objects with a
+// URL field) or an HTML fragment; fragments are returned for link discovery
+export const readLoadMore = (data: unknown, rules: PaginationRules, baseUrl: string): { urls: string[] } | { html: string } => {
+  let body = data;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch (e) {
+      return { html: body as string };
+    }
+  }
+
+  const items = valueAt(body, rules.loadMore?.itemsPath);
+  if (typeof items === 'string') return { html: items };
+  if (!Array.isArray(items)) return { urls: [] };
+
+  const urlField = rules.loadMore?.urlField || 'url';
+  const urls = items
+    .map(item => resolve(typeof item === 'string' ? item : item?.[urlField], baseUrl))
+    .filter((url): url is string => url !== null);
+  return { urls };
+};
@@ -0,0 +1,64 @@
+import { runPool } from './pool';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('respects overall and per-host concurrency', async () => {
+  let active = 0;
+  let maxActive = 0;
+  const activeByHost: Record<string, number> = {};
+  let maxPerHost = 0;
+
+  const urls = [
+    'https://a.com/1', 'https://a.com/2', 'https://a.com/3', 'https://a.com/4',
+    'https://b.com/1', 'https://b.com/2', 'https://c.com/1'
+  ];
+  const { results, skipped } = await runPool(urls, async url => {
+    const host = new URL(url).hostname;
+    active++;
+    activeByHost[host] = (activeByHost[host] || 0) + 1;
+    maxActive = Math.max(maxActive, active);
+    maxPerHost = Math.max(maxPerHost, activeByHost[host]);
+    await delay(5);
+    active--;
+    activeByHost[host]--;
+    return url;
+  }, { concurrency: 3, perHostConcurrency: 2 });
+
+  expect(results).toEqual(urls);
+  expect(skipped).toEqual([]);
+  expect(maxActive).toBe(3);
+  expect(maxPerHost).toBe(2);
+});
+
+test('returns partial results and skipped urls after the timeout', async () => {
+  const urls = ['https://a.com/fast', 'https://a.com/slow', 'https://a.com/queued'];
+  const { results, skipped } = await runPool(urls, async url => {
+    await delay(url.endsWith('fast') ? 1 : 200);
+    return url;
+  }, { concurrency: 2, perHostConcurrency: 2, timeoutMs: 50 });
+
+  expect(results).toEqual(['https://a.com/fast']);
+  expect(skipped).toEqual(['https://a.com/slow', 'https://a.com/queued']);
+});
+
+test('stops waiting when the signal aborts', async () => {
+  const controller = new AbortController();
+  const urls = ['https://a.com/fast', 'https://a.com/slow', 'https://a.com/queued'];
+  setTimeout(() => controller.abort(), 50);
+  const { results, skipped } = await runPool(urls, async url => {
+    await delay(url.endsWith('fast') ? 1 : 200);
+    return url;
+  }, { concurrency: 2, perHostConcurrency: 2, signal: controller.signal });
+
+  expect(results).toEqual(['https://a.com/fast']);
+  expect(skipped).toEqual(['https://a.com/slow', 'https://a.com/queued']);
+});
+
+test('drops rejected workers', async () => {
+  const { results } = await runPool(['https://a.com/1', 'https://a.com/2'], async url => {
+    if (url.endsWith('1')) throw new Error('boom');
+    return url;
+  }, { concurrency: 1, perHostConcurrency: 1 });
+
+  expect(results).toEqual(['https://a.com/2']);
+});
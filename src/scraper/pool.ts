@@ -0,0 +1,102 @@
+export interface PoolOptions {
+  concurrency: number;
+  perHostConcurrency: number;
+  // Stop waiting after this many milliseconds; undefined waits for every url
+  timeoutMs?: number;
+  // Stop waiting when aborted, as at the timeout
+  signal?: AbortSignal;
+}
+
+export interface PoolResult<T> {
+  results: T[];
+  skipped: string[];
+}
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return url;
+  }
+};
+
+// Run worker over urls with bounded concurrency, overall and per host.
+// Results keep the order of urls; anything still queued or in flight when
+// the timeout fires (or the signal aborts) is reported as skipped. Rejected
+// workers yield nothing.
+export const runPool = <T>(
+  urls: string[],
+  worker: (url: string) => Promise<T>,
+  options: PoolOptions
+): Promise<PoolResult<T>> => new Promise(resolve => {
+  const queue = [...urls];
+  const inFlight = new Set<string>();
+  const hostCounts = new Map<string, number>();
+  const completed = new Map<string, T>();
+  let done = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const finish = () => {
+    done = true;
+    if (timer) clearTimeout(timer);
+    resolve({
+      results: urls.filter(url => completed.has(url)).map(url => completed.get(url) as T),
+      skipped: [...urls.filter(url => inFlight.has(url)), ...queue]
+    });
+  };
+
+  const release = (url: string) => {
+    const host = hostOf(url);
+    inFlight.delete(url);
+    hostCounts.set(host, (hostCounts.get(host) || 1) - 1);
+  };
+
+  const start = (url: string) => {
+    const host = hostOf(url);
+    inFlight.add(url);
+    hostCounts.set(host, (hostCounts.get(host) || 0) + 1);
+
+    worker(url)
+      .then(value => {
+        if (!done) completed.set(url, value);
+      }, () => undefined)
+      .then(() => {
+        if (done) return;
+        release(url);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (done) return;
+
+    let i = 0;
+    while (i < queue.length && inFlight.size < options.concurrency) {
+      const url = queue[i];
+      const host = hostOf(url);
+      if ((hostCounts.get(host) || 0) >= options.perHostConcurrency) {
+        i++;
+        continue;
+      }
+
+      queue.splice(i, 1);
+      start(url);
+    }
+
+    if (inFlight.size === 0 && queue.length === 0) {
+      finish();
+    }
+  };
+
+  if (options.timeoutMs !== undefined) {
+    timer = setTimeout(finish, Math.max(0, options.timeoutMs));
+  }
+  if (options.signal?.aborted) {
+    finish();
+    return;
+  }
+  options.signal?.addEventListener('abort', () => {
+    if (!done) finish();
+  }, { once: true });
+  pump();
+});
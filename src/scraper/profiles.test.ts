@@ -0,0 +1,93 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ProfileError } from './errors';
+import { getProfile, initProfiles, loadProfiles, matchesHost, profilesDir, resolveProfile } from './profiles';
+
+const makeDir = (files: Record<string, string>) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-'));
+  fs.copyFileSync(path.join(profilesDir, 'schema.json'), path.join(dir, 'schema.json'));
+  Object.entries(files).forEach(([name, content]) => fs.writeFileSync(path.join(dir, name), content));
+  return dir;
+};
+
+const selectorsYaml = `
+selectors:
+  article: [article]
+  title: [h1]
+  author: [.author]
+  date: [time]
+  image: [img]
+`;
+
+test('the bundled profiles pass validation', () => {
+  expect(loadProfiles().map(profile => profile.name)).toEqual(expect.arrayContaining(['default', 'ABS-CBN News']));
+});
+
+test('matches subdomains and falls back to the default profile', () => {
+  expect(getProfile('news.abs-cbn.com').name).toBe('ABS-CBN News');
+  expect(getProfile('abs-cbn.com').name).toBe('ABS-CBN News');
+  expect(getProfile('notabs-cbn.com').name).toBe('default');
+});
+
+test('reports which profile host matched', () => {
+  expect(resolveProfile('www.abs-cbn.com')).toMatchObject({ matchedHost: 'abs-cbn.com' });
+  expect(resolveProfile('example.com')).toMatchObject({ matchedHost: null, profile: { name: 'default' } });
+});
+
+test('matches hosts within one registrable domain only', () => {
+  expect(matchesHost('news.abs-cbn.com', 'abs-cbn.com')).toBe(true);
+  expect(matchesHost('abs-cbn.com', 'www.abs-cbn.com')).toBe(true);
+  expect(matchesHost('mb.com.ph', 'com.ph')).toBe(false);
+  expect(matchesHost('site.github.io', 'github.io')).toBe(false);
+  expect(matchesHost('abs-cbn.com', 'news.abs-cbn.com')).toBe(false);
+});
+
+test('most specific host wins', () => {
+  const dir = makeDir({
+    'default.yaml': `version: 1\nname: default\nhosts: []\n${selectorsYaml}`,
+    'abs-cbn.yaml': `version: 1\nname: ABS-CBN\nhosts: [abs-cbn.com]\n${selectorsYaml}`,
+    'abs-cbn-news.yaml': `version: 1\nname: ABS-CBN News\nhosts: [news.abs-cbn.com]\n${selectorsYaml}`
+  });
+  initProfiles(dir);
+
+  expect(getProfile('news.abs-cbn.com').name).toBe('ABS-CBN News');
+  expect(getProfile('sports.abs-cbn.com').name).toBe('ABS-CBN');
+  initProfiles();
+});
+
+test('rejects public suffixes as profile hosts', () => {
+  const dir = makeDir({
+    'default.yaml': `version: 1\nname: default\nhosts: []\n${selectorsYaml}`,
+    'ph.yaml': `version: 1\nname: Everything\nhosts: [com.ph]\n${selectorsYaml}`
+  });
+
+  expect(() => loadProfiles(dir)).toThrow('com.ph is a public suffix');
+});
+
+test('loads YAML profiles', () => {
+  const dir = makeDir({
+    'default.yaml': `version: 1\nname: default\nhosts: []\n${selectorsYaml}`,
+    'rappler.yml': `version: 1\nname: Rappler\nhosts: [rappler.com]\nheaders:\n  Accept-Language: en-PH\n${selectorsYaml}`
+  });
+
+  const [defaultProfile, rappler] = loadProfiles(dir);
+  expect(defaultProfile.name).toBe('default');
+  expect(rappler.headers).toEqual({ 'Accept-Language': 'en-PH' });
+});
+
+test('rejects profiles that do not match the schema', () => {
+  const dir = makeDir({
+    'default.yaml': `version: 1\nname: default\nhosts: []\n${selectorsYaml}`,
+    'broken.json': JSON.stringify({ version: 2, name: 'Broken', hosts: ['example.com'] })
+  });
+
+  expect(() => loadProfiles(dir)).toThrow(ProfileError);
+  expect(() => loadProfiles(dir)).toThrow(/broken\.json/);
+});
+
+test('requires a default profile', () => {
+  const dir = makeDir({ 'only.yaml': `version: 1\nname: Only\nhosts: [example.com]\n${selectorsYaml}` });
+
+  expect(() => loadProfiles(dir)).toThrow('No profile named "default"');
+});
@@ -0,0 +1,125 @@
+import Ajv from 'ajv';
+import fs from 'fs';
+import yaml from 'js-yaml';
+import path from 'path';
+import { getDomain } from 'tldts';
+import { ProfileError } from './errors';
+import { SiteProfile } from './types';
+
+export const profilesDir = process.env.PROFILES_DIR || path.resolve(process.cwd(), 'profiles');
+
+const schemaFile = 'schema.json';
+const profileExtensions = ['.json', '.yaml', '.yml'];
+
+let profiles: SiteProfile[] | null = null;
+
+const parseProfileFile = (file: string, raw: string) => {
+  try {
+    return path.extname(file) === '.json' ? JSON.parse(raw) : yaml.load(raw);
+  } catch (error: any) {
+    throw new ProfileError(`${file}: ${error.message}`);
+  }
+};
+
+// Read and validate every profile in dir; throws ProfileError naming the bad file
+export const loadProfiles = (dir: string = profilesDir): SiteProfile[] => {
+  const ajv = new Ajv({ allErrors: true });
+  const validate = ajv.compile<SiteProfile>(JSON.parse(fs.readFileSync(path.join(dir, schemaFile), 'utf8')));
+
+  const files = fs.readdirSync(dir)
+    .filter(file => file !== schemaFile && profileExtensions.includes(path.extname(file)))
+    .sort();
+
+  const loaded = files.map(file => {
+    const profile = parseProfileFile(file, fs.readFileSync(path.join(dir, file), 'utf8'));
+    if (!validate(profile)) {
+      throw new ProfileError(`${file}: ${ajv.errorsText(validate.errors, { dataVar: 'profile' })}`);
+    }
+
+    profile.hosts.forEach(host => {
+      if (!registrableDomain(normaliseHost(host))) {
+        throw new ProfileError(`${file}: ${host} is a public suffix, not a site`);
+      }
+    });
+
+    const patterns = [...(profile.linkPatterns?.include || []), ...(profile.linkPatterns?.exclude || [])];
+    patterns.forEach(pattern => {
+      try {
+        new RegExp(pattern);
+      } catch (e) {
+        throw new ProfileError(`${file}: invalid link pattern ${pattern}`);
+      }
+    });
+    return profile;
+  });
+
+  if (!loaded.some(profile => profile.name === 'default')) {
+    throw new ProfileError(`No profile named "default" in ${dir}`);
+  }
+  return loaded;
+};
+
+// Load (or reload) the profiles used by getProfile
+export const initProfiles = (dir: string = profilesDir) => {
+  profiles = loadProfiles(dir);
+  return profiles;
+};
+
+const getProfiles = () => profiles || initProfiles();
+
+// Include private suffixes such as github.io so each site under them stays separate
+const registrableDomain = (host: string) => getDomain(host, { allowPrivateDomains: true });
+
+export const normaliseHost = (host: string) => host.toLowerCase().replace(/\.$/, '').replace(/^www\./, '');
+
+// A host matches itself and its subdomains, but never across registrable domains,
+// so a profile for a public suffix like com.ph cannot claim every site under it
+export const matchesHost = (hostname: string, host: string) => {
+  const candidate = normaliseHost(hostname);
+  const profileHost = normaliseHost(host);
+  if (candidate !== profileHost && !candidate.endsWith(`.${profileHost}`)) return false;
+  return registrableDomain(candidate) === registrableDomain(profileHost);
+};
+
+export interface ProfileMatch {
+  profile: SiteProfile;
+  // The profile host that matched, or null when the default profile applies
+  matchedHost: string | null;
+}
+
+// Most specific wins: the matching host with the most labels, so news.abs-cbn.com beats abs-cbn.com
+export const resolveProfile = (hostname: string): ProfileMatch => {
+  let best: ProfileMatch | null = null;
+  let bestLabels = 0;
+  for (const profile of getProfiles()) {
+    for (const host of profile.hosts) {
+      const labels = normaliseHost(host).split('.').length;
+      if (matchesHost(hostname, host) && labels > bestLabels) {
+        best = { profile, matchedHost: host };
+        bestLabels = labels;
+      }
+    }
+  }
+  return best || {
+    profile: getProfiles().find(profile => profile.name === 'default') as SiteProfile,
+    matchedHost: null
+  };
+};
+
+export const getProfile = (hostname: string): SiteProfile => resolveProfile(hostname).profile;
+
+// For development: reload when a file changes, keeping the last good set if the new one is invalid
+export const watchProfiles = (dir: string = profilesDir) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return fs.watch(dir, () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        const reloaded = initProfiles(dir);
+        console.log('Reloaded', reloaded.length, 'site profiles');
+      } catch (error: any) {
+        console.error('Keeping previous site profiles:', error.message);
+      }
+    }, 100);
+  });
+};
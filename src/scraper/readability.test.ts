@@ -0,0 +1,54 @@
+import * as cheerio from 'cheerio';
+import { extractMainContent } from './readability';
+
+const page = `
+  <html><body>
+    <nav><a href="/">Home</a> <a href="/news">News</a></nav>
+    <div class="layout">
+      <div class="story-body">
+        <p>MANILA, Philippines — The Senate on Tuesday approved the proposed budget, with senators voting 20-2 after weeks of debate.</p>
+        <figure><img src="/a.jpg"><figcaption>Senators during the session. Photo by Juan</figcaption></figure>
+        <p>The measure, which now goes to the bicameral committee, includes funding for <a href="/tags/schools">schools</a>, hospitals and roads.</p>
+        <script>trackPageView()</script>
+        <blockquote>"This is a budget for everyone," the Senate President said.</blockquote>
+      </div>
+      <div class="related-stories">
+        <p><a href="/news/1">Another story about the budget that is related</a></p>
+        <p><a href="/news/2">Yet another story that readers might also like</a></p>
+      </div>
+      <div class="social-share"><p>Share this article on Facebook, Twitter and LinkedIn, please.</p></div>
+    </div>
+    <footer><p>Copyright 2024 Example News, all rights reserved, every single one.</p></footer>
+  </body></html>
+`;
+
+test('keeps the article paragraphs and drops navigation, captions and related links', () => {
+  const content = extractMainContent(cheerio.load(page), 'https://example.com/news/budget');
+
+  expect(content?.paragraphs).toEqual([
+    'MANILA, Philippines — The Senate on Tuesday approved the proposed budget, with senators voting 20-2 after weeks of debate.',
+    'The measure, which now goes to the bicameral committee, includes funding for schools, hospitals and roads.',
+    '"This is a budget for everyone," the Senate President said.'
+  ]);
+  expect(content?.text.split('\n\n')).toHaveLength(3);
+});
+
+test('rebuilds sanitized markup with absolute links', () => {
+  const $ = cheerio.load(`
+    <article>
+      <p onclick="steal()">Officials said the <strong>new rules</strong> take effect <a href="/rules" style="color:red">next week</a>, after publication.</p>
+      <p>Read the <a href="javascript:alert(1)">full text</a> of the order, which runs to forty pages.</p>
+    </article>
+  `);
+  const content = extractMainContent($, 'https://example.com/news/rules');
+
+  expect(content?.html).toBe(
+    '<p>Officials said the <strong>new rules</strong> take effect ' +
+    '<a href="https://example.com/rules" target="_blank" rel="noopener noreferrer">next week</a>, after publication.</p>' +
+    '<p>Read the full text of the order, which runs to forty pages.</p>'
+  );
+});
+
+test('returns null when nothing looks like an article', () => {
+  expect(extractMainContent(cheerio.load('<div><a href="/">Home</a></div>'), 'https://example.com/')).toBeNull();
+});
@@ -0,0 +1,207 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+
+export interface MainContent {
+  text: string;
+  paragraphs: string[];
+  // Rebuilt from a small tag whitelist, safe to render as-is
+  html: string;
+}
+
+interface Block {
+  tag: string;
+  text: string;
+  html: string;
+}
+
+// Containers that commonly wrap the article body get a head start
+export const contentSelectors = [
+  'article .content',
+  'article .article-content',
+  'article .story-content',
+  'article .post-content',
+  'article .entry-content',
+  '.article-body',
+  '.story-body',
+  '.post-body',
+  '.entry-body',
+  '[itemprop="articleBody"]',
+  '.article__content',
+  '.story__content',
+  '.post__content',
+  '.entry__content'
+];
+
+const junkSelectors = 'script, style, noscript, iframe, form, nav, header, footer, aside, button, svg, figure, figcaption, ' +
+  '[role="navigation"], [role="banner"], [role="complementary"], [aria-hidden="true"]';
+const unlikelyPattern = /ad-|advert|banner|breadcrumb|caption|comment|cookie|footer|menu|modal|more-stories|nav|newsletter|popup|promo|related|share|sidebar|social|sponsor|subscribe|tags|trending|widget/i;
+const likelyPattern = /article|body|content|entry|main|post|story|text/i;
+const positivePattern = /article|body|content|entry|main|page|post|story|text/i;
+const negativePattern = /comment|footer|meta|related|share|sidebar|social|sponsor|widget|ad-|promo/i;
+
+const blockTags = ['p', 'h2', 'h3', 'h4', 'blockquote', 'li', 'pre'];
+const inlineTags = ['strong', 'b', 'em', 'i'];
+
+const normalise = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const classAndId = ($: CheerioAPI, el: any) => `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+
+const linkDensity = ($: CheerioAPI, el: any) => {
+  const textLength = normalise($(el).text()).length;
+  if (!textLength) return 0;
+  const linkLength = $(el).find('a').toArray().reduce((sum, a) => sum + normalise($(a).text()).length, 0);
+  return linkLength / textLength;
+};
+
+const initialScore = ($: CheerioAPI, el: any, hinted: Set<any>) => {
+  let score = 0;
+  switch (el.name) {
+    case 'article':
+      score += 10;
+      break;
+    case 'div':
+    case 'section':
+    case 'main':
+      score += 5;
+      break;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3;
+      break;
+    case 'ol':
+    case 'ul':
+    case 'li':
+      score -= 3;
+      break;
+    default:
+      break;
+  }
+  const names = classAndId($, el);
+  if (negativePattern.test(names)) score -= 25;
+  if (positivePattern.test(names)) score += 25;
+  if (hinted.has(el)) score += 25;
+  return score;
+};
+
+// Rebuild inline markup keeping only text, emphasis, line breaks and http(s) links
+const inlineHtml = ($: CheerioAPI, el: any, baseUrl: string): string => $(el).contents().toArray().map((node: any) => {
+  if (node.type === 'text') {
+    return escapeHtml(node.data.replace(/\s+/g, ' '));
+  }
+  if (node.type !== 'tag') return '';
+
+  const inner = inlineHtml($, node, baseUrl);
+  if (inlineTags.includes(node.name)) return `<${node.name}>${inner}</${node.name}>`;
+  if (node.name === 'br') return '<br>';
+  if (node.name === 'a') {
+    try {
+      const href = new URL($(node).attr('href') || '', baseUrl);
+      if (href.protocol === 'http:' || href.protocol === 'https:') {
+        return `<a href="${escapeHtml(href.href)}" target="_blank" rel="noopener noreferrer">${inner}</a>`;
+      }
+    } catch (e) {
+      // Fall through to the link text
+    }
+  }
+  return inner;
+}).join('');
+
+const collectBlocks = ($: CheerioAPI, el: any, baseUrl: string, blocks: Block[]) => {
+  if (blockTags.includes(el.name)) {
+    const text = normalise($(el).text());
+    if (text && linkDensity($, el) <= 0.5) {
+      blocks.push({ tag: el.name, text, html: inlineHtml($, el, baseUrl).trim() });
+    }
+    return;
+  }
+  $(el).children().toArray().forEach(child => collectBlocks($, child, baseUrl, blocks));
+};
+
+const toHtml = (blocks: Block[]) => {
+  let html = '';
+  blocks.forEach((block, i) => {
+    if (block.tag === 'li') {
+      if (blocks[i - 1]?.tag !== 'li') html += '<ul>';
+      html += `<li>${block.html}</li>`;
+      if (blocks[i + 1]?.tag !== 'li') html += '</ul>';
+    } else {
+      html += `<${block.tag}>${block.html}</${block.tag}>`;
+    }
+  });
+  return html;
+};
+
+// Score containers by the paragraphs they hold (text length, commas, link density),
+// then keep the best one together with sibling blocks that score nearly as well.
+export const extractMainContent = (source: CheerioAPI, baseUrl: string): MainContent | null => {
+  // Work on a copy so the caller's document keeps its markup
+  const $ = cheerio.load(source.html() || '');
+
+  $(junkSelectors).remove();
+  $('*').each((_, el: any) => {
+    if (['html', 'body', 'article', 'main'].includes(el.name)) return;
+    const names = classAndId($, el);
+    if (unlikelyPattern.test(names) && !likelyPattern.test(names)) {
+      $(el).remove();
+    }
+  });
+
+  const hinted = new Set<any>($(contentSelectors.join(', ')).toArray());
+  const scores = new Map<any, number>();
+  const addScore = (el: any, score: number) => {
+    if (!el || el.type !== 'tag' || el.name === 'html') return;
+    if (!scores.has(el)) scores.set(el, initialScore($, el, hinted));
+    scores.set(el, (scores.get(el) as number) + score);
+  };
+
+  $('p, pre, td').each((_, el: any) => {
+    const text = normalise($(el).text());
+    if (text.length < 25) return;
+
+    const score = 1 + (text.match(/,/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(el.parent, score);
+    addScore(el.parent?.parent, score / 2);
+  });
+
+  let top: any = null;
+  let topScore = 0;
+  scores.forEach((score, el) => {
+    const adjusted = score * (1 - linkDensity($, el));
+    scores.set(el, adjusted);
+    if (adjusted > topScore) {
+      top = el;
+      topScore = adjusted;
+    }
+  });
+  if (!top) return null;
+
+  // Paragraph clustering: pull in siblings that look like more of the same story
+  const threshold = Math.max(10, topScore * 0.2);
+  const parts = top.parent ? $(top.parent).children().toArray() : [top];
+  const included = parts.filter((sibling: any) => {
+    if (sibling === top) return true;
+    if ((scores.get(sibling) || 0) >= threshold) return true;
+    if (sibling.name !== 'p') return false;
+    const text = normalise($(sibling).text());
+    const density = linkDensity($, sibling);
+    return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+  });
+
+  const blocks: Block[] = [];
+  included.forEach((el: any) => collectBlocks($, el, baseUrl, blocks));
+  if (blocks.length === 0) return null;
+
+  const paragraphs = blocks.map(block => block.text);
+  return {
+    text: paragraphs.join('\n\n'),
+    paragraphs,
+    html: toHtml(blocks)
+  };
+};
@@ -0,0 +1,154 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import type { Route } from 'playwright-core';
+import { createRenderer } from './render';
+
+const mockLaunch = jest.fn();
+jest.mock('playwright-core', () => ({ chromium: { launch: (...args: any[]) => mockLaunch(...args) } }));
+
+// A browser whose pages take a while to load, counting how many are open at once
+const stubBrowser = (goto: (url: string) => Promise<void>) => {
+  const stats = { open: 0, maxOpen: 0 };
+  const browser = {
+    close: jest.fn(async () => undefined),
+    newContext: jest.fn(async () => ({
+      close: async () => undefined,
+      newPage: async () => ({
+        route: async () => undefined,
+        goto: async (url: string) => {
+          stats.maxOpen = Math.max(stats.maxOpen, ++stats.open);
+          try {
+            await goto(url);
+          } finally {
+            stats.open--;
+          }
+          return { status: () => 200 };
+        },
+        waitForLoadState: async () => undefined,
+        content: async () => '<html><body>Rendered</body></html>'
+      })
+    }))
+  };
+  return { browser, stats };
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+const renderOptions = { userAgent: 'test', headers: {}, timeoutMs: 5000 };
+
+// Just enough of a Playwright route for fetchForBrowser
+const stubRoute = (url: string, resourceType = 'document') => {
+  const route = {
+    request: () => ({
+      url: () => url,
+      method: () => 'GET',
+      resourceType: () => resourceType,
+      isNavigationRequest: () => resourceType === 'document',
+      allHeaders: async () => ({ 'user-agent': 'test', 'accept-encoding': 'gzip, br', host: 'ignored' }),
+      postDataBuffer: () => null
+    }),
+    fulfill: jest.fn(async (_options: { status: number; headers: Record<string, string>; body: Buffer }) => undefined),
+    abort: jest.fn(async (_code?: string) => undefined)
+  };
+  return route;
+};
+
+test('fetches browser requests itself and hands redirects back one hop at a time', async () => {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/story') {
+      res.writeHead(302, { Location: '/final' });
+      res.end();
+    } else if (req.url === '/metadata') {
+      res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+      res.end();
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/html', 'X-Seen-Agent': String(req.headers['user-agent']) });
+      res.end('<html><body>Final</body></html>');
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // Only the test server is let through
+  process.env.ALLOW_PRIVATE_NETWORKS = '127.0.0.1';
+
+  try {
+    let render: typeof import('./render') = {} as any;
+    jest.isolateModules(() => {
+      render = require('./render');
+    });
+    const fetch = (route: ReturnType<typeof stubRoute>) => render.fetchForBrowser(route as unknown as Route);
+
+    const redirect = stubRoute(`${base}/story`);
+    expect(await fetch(redirect)).toBeUndefined();
+    expect(redirect.fulfill.mock.calls[0][0]).toMatchObject({ status: 302, headers: { location: '/final' } });
+
+    const final = stubRoute(`${base}/final`);
+    await fetch(final);
+    const page = final.fulfill.mock.calls[0][0];
+    expect(page.status).toBe(200);
+    expect(page.headers).toMatchObject({ 'content-type': 'text/html', 'x-seen-agent': 'test' });
+    expect(page.headers['content-length']).toBeUndefined();
+    expect(page.body.toString()).toBe('<html><body>Final</body></html>');
+
+    // Refused both as a Location and as the next hop Chromium asks for
+    const metadata = stubRoute(`${base}/metadata`);
+    expect(await fetch(metadata)).toMatchObject({ code: 'BLOCKED_ADDRESS' });
+    expect(metadata.abort).toHaveBeenCalledWith('blockedbyclient');
+    expect(metadata.fulfill).not.toHaveBeenCalled();
+
+    const script = stubRoute('http://169.254.169.254/latest/meta-data/', 'xhr');
+    expect(await fetch(script)).toMatchObject({ code: 'BLOCKED_ADDRESS' });
+    expect(script.abort).toHaveBeenCalledWith('blockedbyclient');
+
+    const image = stubRoute(`${base}/photo.jpg`, 'image');
+    await fetch(image);
+    expect(image.abort).toHaveBeenCalledWith();
+    expect(image.fulfill).not.toHaveBeenCalled();
+  } finally {
+    delete process.env.ALLOW_PRIVATE_NETWORKS;
+    server.close();
+  }
+});
+
+test('renders at most maxTabs pages at once in one browser', async () => {
+  const { browser, stats } = stubBrowser(() => sleep(20));
+  mockLaunch.mockReset().mockResolvedValue(browser);
+  const { render, close } = createRenderer({ maxTabs: 2 });
+
+  const pages = await Promise.all([1, 2, 3, 4, 5].map(n => render(`https://example.com/${n}`, renderOptions)));
+
+  expect(pages.every(page => page.status === 200 && page.html.includes('Rendered'))).toBe(true);
+  expect(stats.maxOpen).toBe(2);
+  expect(mockLaunch).toHaveBeenCalledTimes(1);
+  expect(browser.newContext).toHaveBeenCalledTimes(5);
+  await close();
+});
+
+test('closes the browser once idle and launches it again when needed', async () => {
+  const { browser } = stubBrowser(async () => undefined);
+  mockLaunch.mockReset().mockResolvedValue(browser);
+  const { render, close } = createRenderer({ idleMs: 30 });
+
+  await render('https://example.com/', renderOptions);
+  expect(browser.close).not.toHaveBeenCalled();
+  await sleep(80);
+  expect(browser.close).toHaveBeenCalledTimes(1);
+
+  await render('https://example.com/', renderOptions);
+  expect(mockLaunch).toHaveBeenCalledTimes(2);
+  await close();
+});
+
+test('reports a browser that will not start, or a page that never loads', async () => {
+  mockLaunch.mockReset().mockRejectedValueOnce(new Error("Executable doesn't exist\nrun playwright install"));
+  const { render, close } = createRenderer();
+  await expect(render('https://example.com/', renderOptions)).rejects.toMatchObject({
+    code: 'RENDER_UNAVAILABLE',
+    status: 501,
+    message: "Could not start headless Chromium: Executable doesn't exist"
+  });
+
+  const timeout = Object.assign(new Error('page.goto: Timeout 5000ms exceeded'), { name: 'TimeoutError' });
+  mockLaunch.mockResolvedValue(stubBrowser(() => Promise.reject(timeout)).browser);
+  await expect(render('https://example.com/', renderOptions)).rejects.toMatchObject({ code: 'TIMEOUT' });
+  await close();
+});
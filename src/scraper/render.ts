@@ -0,0 +1,187 @@
+import type { Browser, BrowserContext, Route } from 'playwright-core';
+import { ScrapeError, scrapeErrorCause } from './errors';
+import { publicRequest, publicUrl } from './network';
+import { PageRenderer } from './types';
+
+export interface RendererOptions {
+  // Chromium binary to launch; Playwright's own download when unset
+  executablePath?: string;
+  // Pages rendered at once, each in its own browser context
+  maxTabs?: number;
+  // The browser is closed after this long without work
+  idleMs?: number;
+}
+
+export interface Renderer {
+  render: PageRenderer;
+  close: () => Promise<void>;
+}
+
+// Nothing the scraper reads depends on these, and they are most of a page's weight
+const blockedResources = new Set(['image', 'media', 'font']);
+
+// Time given to late XHR-driven rendering after the DOM is ready
+const settleMs = 3000;
+
+const firstLine = (error: any) => String(error?.message || error).split('\n')[0];
+
+// Connection and encoding headers no longer apply once axios has fetched and decoded the body
+const droppedRequestHeaders = new Set(['host', 'connection', 'content-length', 'accept-encoding', 'keep-alive']);
+const droppedResponseHeaders = new Set(['connection', 'content-length', 'content-encoding', 'transfer-encoding', 'keep-alive']);
+
+const responseHeaders = (headers: Record<string, unknown>) => {
+  const result: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value === undefined || value === null || droppedResponseHeaders.has(name.toLowerCase())) return;
+    // Playwright takes repeated headers such as Set-Cookie joined by newlines
+    result[name] = Array.isArray(value) ? value.join('\n') : String(value);
+  });
+  return result;
+};
+
+// Chromium never reaches the network itself: every request a page makes is fetched
+// through publicRequest, which checks the address it connects to, and handed back
+// to the browser. Redirects are passed back unfollowed, so each hop comes through
+// here again. Returns the refusal when a request was blocked.
+export const fetchForBrowser = async (route: Route): Promise<ScrapeError | undefined> => {
+  const request = route.request();
+  if (blockedResources.has(request.resourceType())) {
+    await route.abort();
+    return undefined;
+  }
+  try {
+    const headers = Object.fromEntries(Object.entries(await request.allHeaders())
+      .filter(([name]) => !name.startsWith(':') && !droppedRequestHeaders.has(name)));
+    const response = await publicRequest<ArrayBuffer>(request.url(), {
+      method: request.method(),
+      data: request.postDataBuffer() ?? undefined,
+      headers,
+      responseType: 'arraybuffer',
+      validateStatus: () => true,
+      maxRedirects: 0
+    });
+    const location = response.headers.location;
+    if (location) {
+      publicUrl(new URL(String(location), request.url()).href);
+    }
+    await route.fulfill({
+      status: response.status,
+      headers: responseHeaders(response.headers),
+      body: Buffer.from(response.data)
+    });
+    return undefined;
+  } catch (error) {
+    const refusal = scrapeErrorCause(error);
+    await route.abort(refusal?.code === 'BLOCKED_ADDRESS' ? 'blockedbyclient' : 'failed').catch(() => undefined);
+    return refusal;
+  }
+};
+
+// Renders pages in one lazily launched headless Chromium, shared by every scrape.
+// playwright-core is an optional dependency: without it (or without a Chromium
+// it can launch) rendering fails with a 501 and static scraping carries on.
+export const createRenderer = (options: RendererOptions = {}): Renderer => {
+  const maxTabs = options.maxTabs ?? 2;
+  const idleMs = options.idleMs ?? 60000;
+  let browser: Promise<Browser> | null = null;
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const launch = () => {
+    if (!browser) {
+      browser = (async () => {
+        let playwright: typeof import('playwright-core');
+        try {
+          playwright = await import('playwright-core');
+        } catch (e) {
+          throw new ScrapeError('RENDER_UNAVAILABLE', 'JavaScript rendering needs the playwright-core package on the server.');
+        }
+        try {
+          console.log('Launching headless Chromium');
+          return await playwright.chromium.launch({
+            headless: true,
+            executablePath: options.executablePath,
+            // A backstop for traffic that skips page.route, such as WebSockets:
+            // the browser cannot resolve any host name on its own
+            args: ['--host-resolver-rules=MAP * ~NOTFOUND']
+          });
+        } catch (error) {
+          throw new ScrapeError('RENDER_UNAVAILABLE', `Could not start headless Chromium: ${firstLine(error)}`);
+        }
+      })();
+      // A failed launch is retried by the next render
+      browser.catch(() => {
+        browser = null;
+      });
+    }
+    return browser;
+  };
+
+  const close = async () => {
+    const current = browser;
+    browser = null;
+    if (current) {
+      await current.then(instance => instance.close(), () => undefined);
+    }
+  };
+
+  const acquire = async () => {
+    clearTimeout(idleTimer);
+    if (active >= maxTabs) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    active++;
+  };
+
+  const release = () => {
+    active--;
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else if (active === 0) {
+      idleTimer = setTimeout(() => {
+        console.log('Closing idle headless Chromium');
+        close();
+      }, idleMs);
+      idleTimer.unref?.();
+    }
+  };
+
+  const render: PageRenderer = async (url, { userAgent, headers, timeoutMs }) => {
+    await acquire();
+    let context: BrowserContext | undefined;
+    // A refused navigation fails the render with its own error rather than Chromium's
+    let refused: ScrapeError | undefined;
+    try {
+      const instance = await launch();
+      // Service workers' requests would not go through page.route
+      context = await instance.newContext({ userAgent, extraHTTPHeaders: headers, serviceWorkers: 'block' });
+      const page = await context.newPage();
+      await page.route('**/*', async route => {
+        const refusal = await fetchForBrowser(route);
+        if (refusal && route.request().isNavigationRequest()) refused = refused || refusal;
+      });
+
+      const startedAt = Date.now();
+      const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: timeoutMs });
+      const left = timeoutMs - (Date.now() - startedAt);
+      if (left > 0) {
+        await page.waitForLoadState('networkidle', { timeout: Math.min(settleMs, left) }).catch(() => undefined);
+      }
+      return { status: response?.status() ?? 200, html: await page.content() };
+    } catch (error) {
+      if (error instanceof ScrapeError) throw error;
+      if (refused) throw refused;
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new ScrapeError('TIMEOUT', `${new URL(url).hostname} took too long to render.`);
+      }
+      throw new ScrapeError('RENDER_FAILED', `Could not render ${url}: ${firstLine(error)}`);
+    } finally {
+      await context?.close().catch(() => undefined);
+      release();
+    }
+  };
+
+  return { render, close };
+};
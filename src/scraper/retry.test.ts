@@ -0,0 +1,93 @@
+import { ScrapeError } from './errors';
+import { backoffDelay, createCircuitBreaker, isRetryable, parseRetryAfter, withRetries } from './retry';
+
+const response = (status: number, headers: Record<string, string> = {}) => ({ status, headers });
+
+test('reads Retry-After as seconds or a date', () => {
+  const now = Date.parse('2024-05-01T00:00:00Z');
+
+  expect(parseRetryAfter('120', now)).toBe(120000);
+  expect(parseRetryAfter('Wed, 01 May 2024 00:00:30 GMT', now)).toBe(30000);
+  expect(parseRetryAfter('soon', now)).toBeUndefined();
+  expect(parseRetryAfter(undefined, now)).toBeUndefined();
+});
+
+test('retries timeouts and server errors but not our own refusals', () => {
+  expect(isRetryable({ code: 'ECONNABORTED' })).toBe(true);
+  expect(isRetryable({ response: { status: 503 } })).toBe(true);
+  expect(isRetryable({ response: { status: 404 } })).toBe(false);
+  expect(isRetryable(new ScrapeError('BLOCKED_ADDRESS', 'blocked'))).toBe(false);
+});
+
+test('backs off exponentially with jitter up to a cap', () => {
+  expect(backoffDelay(0, { random: () => 1 })).toBe(500);
+  expect(backoffDelay(2, { random: () => 1 })).toBe(2000);
+  expect(backoffDelay(10, { random: () => 1 })).toBe(5000);
+  expect(backoffDelay(2, { random: () => 0.5 })).toBe(1000);
+});
+
+test('retries until the request succeeds, honouring Retry-After', async () => {
+  const waits: number[] = [];
+  const answers = [response(429, { 'retry-after': '2' }), response(503), response(200)];
+  const request = jest.fn(async () => answers.shift() as ReturnType<typeof response>);
+
+  const result = await withRetries(request, { random: () => 0, sleep: async ms => { waits.push(ms); } });
+
+  expect(result.status).toBe(200);
+  expect(request).toHaveBeenCalledTimes(3);
+  expect(waits).toEqual([2000, 0]);
+});
+
+test('gives up after the last retry or a long Retry-After', async () => {
+  const sleep = async () => undefined;
+  const timeout = Object.assign(new Error('timeout of 10000ms exceeded'), { code: 'ECONNABORTED' });
+
+  await expect(withRetries(async () => { throw timeout; }, { retries: 1, sleep })).rejects.toBe(timeout);
+  const throttled = jest.fn(async () => response(429, { 'retry-after': '3600' }));
+  expect((await withRetries(throttled, { sleep })).status).toBe(429);
+  expect(throttled).toHaveBeenCalledTimes(1);
+
+  const missing = jest.fn(async () => response(404));
+  expect((await withRetries(missing, { sleep })).status).toBe(404);
+  expect(missing).toHaveBeenCalledTimes(1);
+});
+
+test('does not retry past the deadline', async () => {
+  const sleep = async () => undefined;
+  const now = () => 10000;
+  const unavailable = jest.fn(async () => response(503));
+
+  // A 500 ms backoff plus a second for the attempt still fits before 11500, but not before 11400
+  await withRetries(unavailable, { retries: 1, random: () => 1, sleep, now, deadline: 11500 });
+  expect(unavailable).toHaveBeenCalledTimes(2);
+  unavailable.mockClear();
+  expect((await withRetries(unavailable, { retries: 1, random: () => 1, sleep, now, deadline: 11400 })).status).toBe(503);
+  expect(unavailable).toHaveBeenCalledTimes(1);
+});
+
+test('opens a host circuit after repeated failures and lets one trial through later', () => {
+  let time = 0;
+  const breaker = createCircuitBreaker({ failureThreshold: 2, cooldownMs: 30000, now: () => time });
+
+  breaker.failed('down.example.com');
+  expect(() => breaker.check('down.example.com')).not.toThrow();
+  breaker.failed('down.example.com');
+  expect(() => breaker.check('down.example.com')).toThrow(expect.objectContaining({ status: 503, code: 'HOST_UNAVAILABLE' }));
+  expect(() => breaker.check('up.example.com')).not.toThrow();
+  expect(breaker.unavailable(['down.example.com', 'up.example.com'])).toEqual([
+    { host: 'down.example.com', failures: 2, retryAt: new Date(30000).toISOString() }
+  ]);
+
+  time = 30000;
+  expect(() => breaker.check('down.example.com')).not.toThrow();
+  // Only one trial at a time
+  expect(() => breaker.check('down.example.com')).toThrow();
+  breaker.failed('down.example.com');
+  expect(breaker.unavailable(['down.example.com'])[0].retryAt).toBe(new Date(60000).toISOString());
+
+  time = 60000;
+  breaker.check('down.example.com');
+  breaker.succeeded('down.example.com');
+  expect(() => breaker.check('down.example.com')).not.toThrow();
+  expect(breaker.unavailable(['down.example.com'])).toEqual([]);
+});
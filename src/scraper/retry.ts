@@ -0,0 +1,156 @@
+import { ScrapeError, scrapeErrorCause } from './errors';
+import { UnavailableHost } from './types';
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // A Retry-After longer than this is not waited for; the failure is returned instead
+  maxRetryAfterMs?: number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  // Time (ms since the epoch) after which no retry is started
+  deadline?: number;
+  now?: () => number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failed requests that open a host's circuit
+  failureThreshold?: number;
+  // How long an open circuit refuses requests before one is let through as a trial
+  cooldownMs?: number;
+  now?: () => number;
+}
+
+interface HostState {
+  failures: number;
+  openedAt?: number;
+  // A trial request is in flight after the cooldown
+  probing?: boolean;
+}
+
+const retryableStatuses = new Set([408, 429, 500, 502, 503, 504]);
+const retryableCodes = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'ERR_SOCKET_CONNECTION_TIMEOUT']);
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// A retry with less time than this before the deadline would only time out
+const minAttemptMs = 1000;
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | undefined, now = Date.now()) => {
+  if (!value) return undefined;
+  if (/^\s*\d+\s*$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+export const isRetryableStatus = (status: number) => retryableStatuses.has(status);
+
+// Timeouts, dropped connections, 429 and the 5xx statuses that usually pass.
+// Our own refusals (private addresses, oversized pages) are never retried.
+export const isRetryable = (error: any) => {
+  if (scrapeErrorCause(error)) return false;
+  const status = error?.response?.status;
+  if (status) return retryableStatuses.has(status);
+  return retryableCodes.has(error?.code);
+};
+
+// Exponential backoff with full jitter: a random wait up to base * 2^attempt
+export const backoffDelay = (attempt: number, { baseDelayMs = 500, maxDelayMs = 5000, random = Math.random }: RetryOptions = {}) =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+// Run a GET until it succeeds, fails for good, runs out of retries or would retry
+// past the deadline. Responses with a retryable status count as failures too,
+// since page fetches accept 4xx.
+export const withRetries = async <T extends { status: number; headers: Record<string, any> }>(
+  request: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> => {
+  const retries = options.retries ?? 2;
+  const maxRetryAfterMs = options.maxRetryAfterMs ?? 10000;
+  const wait = options.sleep || sleep;
+  const now = options.now || Date.now;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: T | undefined;
+    let failure: any;
+    try {
+      response = await request();
+      if (!retryableStatuses.has(response.status)) return response;
+    } catch (error) {
+      if (!isRetryable(error)) throw error;
+      failure = error;
+    }
+
+    if (attempt >= retries) {
+      if (response) return response;
+      throw failure;
+    }
+    const headers = response ? response.headers : failure?.response?.headers || {};
+    const retryAfter = parseRetryAfter(headers['retry-after']);
+    if (retryAfter !== undefined && retryAfter > maxRetryAfterMs) {
+      if (response) return response;
+      throw failure;
+    }
+    const delay = Math.max(retryAfter ?? 0, backoffDelay(attempt, options));
+    if (options.deadline !== undefined && now() + delay + minAttemptMs > options.deadline) {
+      if (response) return response;
+      throw failure;
+    }
+    const status = response?.status ?? failure?.response?.status;
+    console.log(`Retrying in ${delay} ms after`, status ? `status ${status}` : failure?.code || failure?.message);
+    await wait(delay);
+  }
+};
+
+// Per-host circuit breaker: after failureThreshold failures in a row a host is
+// skipped for cooldownMs, then one trial request decides whether it is back.
+export const createCircuitBreaker = ({ failureThreshold = 5, cooldownMs = 60000, now = Date.now }: CircuitBreakerOptions = {}) => {
+  const hosts = new Map<string, HostState>();
+
+  const retryAt = (state: HostState) => (state.openedAt ?? 0) + cooldownMs;
+
+  // Throws for a host whose circuit is open; otherwise the request may go ahead
+  const check = (host: string) => {
+    const state = hosts.get(host);
+    if (!state || state.openedAt === undefined) return;
+    if (now() >= retryAt(state) && !state.probing) {
+      state.probing = true;
+      return;
+    }
+    const seconds = Math.max(1, Math.ceil((retryAt(state) - now()) / 1000));
+    throw new ScrapeError('HOST_UNAVAILABLE', `${host} keeps failing, so requests to it are paused for ${seconds} more seconds.`);
+  };
+
+  const succeeded = (host: string) => {
+    hosts.delete(host);
+  };
+
+  const failed = (host: string) => {
+    const state = hosts.get(host) || { failures: 0 };
+    state.failures++;
+    if (state.probing || state.failures >= failureThreshold) {
+      if (state.openedAt === undefined || state.probing) {
+        console.log('Pausing requests to', host, 'after', state.failures, 'failures');
+      }
+      state.openedAt = now();
+      state.probing = false;
+    }
+    hosts.set(host, state);
+  };
+
+  // Open circuits among the given hosts, for reporting with a scrape result
+  const unavailable = (names: Iterable<string>): UnavailableHost[] => Array.from(new Set(names))
+    .map(host => ({ host, state: hosts.get(host) }))
+    .filter((entry): entry is { host: string; state: HostState } => entry.state?.openedAt !== undefined)
+    .map(({ host, state }) => ({ host, failures: state.failures, retryAt: new Date(retryAt(state)).toISOString() }));
+
+  return { check, succeeded, failed, unavailable };
+};
+
+export const hostCircuits = createCircuitBreaker({
+  failureThreshold: Number(process.env.CIRCUIT_FAILURE_THRESHOLD) || 5,
+  cooldownMs: Number(process.env.CIRCUIT_COOLDOWN_MS) || 60000
+});
@@ -0,0 +1,80 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { crawlDelayFor, fetchRobotsTxt, isAllowedByRobots, parseRobotsTxt, waitForCrawlDelay } from './robots';
+
+const robots = parseRobotsTxt(`
+# Example
+User-agent: *
+Disallow: /search
+Disallow: /*.pdf$
+Allow: /search/help
+Crawl-delay: 2
+
+User-agent: BadBot
+User-agent: NewsScraper
+Disallow: /private/
+Crawl-delay: 5
+
+Sitemap: https://example.com/sitemap.xml
+`);
+
+test('applies the * group to other agents', () => {
+  expect(isAllowedByRobots(robots, 'OtherBot', 'https://example.com/news/1')).toBe(true);
+  expect(isAllowedByRobots(robots, 'OtherBot', 'https://example.com/search?q=x')).toBe(false);
+  expect(crawlDelayFor(robots, 'OtherBot')).toBe(2);
+});
+
+test('prefers the group naming our token', () => {
+  expect(isAllowedByRobots(robots, 'NewsScraper', 'https://example.com/search')).toBe(true);
+  expect(isAllowedByRobots(robots, 'NewsScraper', 'https://example.com/private/page')).toBe(false);
+  expect(crawlDelayFor(robots, 'NewsScraper')).toBe(5);
+});
+
+test('longest rule wins and wildcards match', () => {
+  expect(isAllowedByRobots(robots, 'OtherBot', 'https://example.com/search/help')).toBe(true);
+  expect(isAllowedByRobots(robots, 'OtherBot', 'https://example.com/files/report.pdf')).toBe(false);
+  expect(isAllowedByRobots(robots, 'OtherBot', 'https://example.com/files/report.pdf?x=1')).toBe(true);
+});
+
+test('collects sitemaps and treats an empty file as allow-all', () => {
+  expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  expect(isAllowedByRobots(parseRobotsTxt(''), 'NewsScraper', 'https://example.com/anything')).toBe(true);
+});
+
+test('does not remember a robots.txt that could not be read', async () => {
+  let requests = 0;
+  const server = http.createServer((req, res) => {
+    // The first answer comes too late, the second in time
+    const delayMs = ++requests === 1 ? 1500 : 0;
+    setTimeout(() => res.end('User-agent: *\nDisallow: /private/\n'), delayMs);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.ALLOW_PRIVATE_NETWORKS = '127.0.0.1';
+
+  try {
+    let robotsModule: typeof import('./robots') = {} as any;
+    jest.isolateModules(() => {
+      robotsModule = require('./robots');
+    });
+
+    await expect(robotsModule.fetchRobotsTxt(origin, 'NewsScraper', 1000)).rejects.toMatchObject({ code: 'ECONNABORTED' });
+    const robotsTxt = await robotsModule.fetchRobotsTxt(origin, 'NewsScraper', 1000);
+    expect(isAllowedByRobots(robotsTxt, 'NewsScraper', `${origin}/private/page`)).toBe(false);
+    expect(requests).toBe(2);
+  } finally {
+    delete process.env.ALLOW_PRIVATE_NETWORKS;
+    server.close();
+  }
+});
+
+test('refuses to start a robots.txt download with no time left', async () => {
+  await expect(fetchRobotsTxt('https://short-of-time.example', 'NewsScraper', 1)).rejects.toMatchObject({ code: 'TIMEOUT' });
+});
+
+test('does not wait out a crawl delay past the deadline', async () => {
+  const startedAt = Date.now();
+  await waitForCrawlDelay('slow.example', 30, startedAt + 1000);
+  await expect(waitForCrawlDelay('slow.example', 30, startedAt + 1000)).rejects.toMatchObject({ code: 'TIMEOUT' });
+  expect(Date.now() - startedAt).toBeLessThan(500);
+});
@@ -0,0 +1,184 @@
+import { ScrapeError } from './errors';
+import { publicGet } from './network';
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface RobotsPolicy {
+  allowed: boolean;
+  // Seconds between requests to this host, when the site asks for one
+  crawlDelay?: number;
+}
+
+// How long robots.txt answers are cached per origin; failures are retried sooner
+const cacheTtlMs = 60 * 60 * 1000;
+const retryTtlMs = 5 * 60 * 1000;
+// Never wait longer than this between requests, whatever the site asks for
+const maxCrawlDelay = 30;
+// A download given less time than this is not started
+const minTimeoutMs = 1000;
+
+const cache = new Map<string, { robots: Promise<RobotsTxt>; expires: number }>();
+const nextSlot = new Map<string, number>();
+
+const allowAll: RobotsTxt = { groups: [], sitemaps: [] };
+const disallowAll: RobotsTxt = { groups: [{ agents: ['*'], rules: [{ allow: false, path: '/' }] }], sitemaps: [] };
+
+export const parseRobotsTxt = (text: string): RobotsTxt => {
+  const robots: RobotsTxt = { groups: [], sitemaps: [] };
+  let group: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!group || !lastWasAgent) {
+        group = { agents: [], rules: [] };
+        robots.groups.push(group);
+      }
+      group.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      return;
+    }
+    lastWasAgent = false;
+
+    if (field === 'sitemap') {
+      if (value) robots.sitemaps.push(value);
+    } else if (group && (field === 'allow' || field === 'disallow')) {
+      // An empty Disallow allows everything, so it adds no rule
+      if (value) group.rules.push({ allow: field === 'allow', path: value });
+    } else if (group && field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) group.crawlDelay = delay;
+    }
+  });
+
+  return robots;
+};
+
+// The group naming our product token wins over the * group
+const groupFor = (robots: RobotsTxt, agentToken: string) => {
+  const token = agentToken.toLowerCase();
+  return robots.groups.find(group => group.agents.some(agent => agent !== '*' && token.includes(agent))) ||
+    robots.groups.find(group => group.agents.includes('*'));
+};
+
+const patternToRegExp = (pattern: string) => {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+};
+
+// Longest matching rule wins; on a tie Allow wins (RFC 9309)
+export const isAllowedByRobots = (robots: RobotsTxt, agentToken: string, url: string) => {
+  const group = groupFor(robots, agentToken);
+  if (!group) return true;
+
+  const { pathname, search } = new URL(url);
+  const target = pathname + search;
+  let match: RobotsRule | null = null;
+  for (const rule of group.rules) {
+    if (!patternToRegExp(rule.path).test(target)) continue;
+    if (!match || rule.path.length > match.path.length || (rule.path.length === match.path.length && rule.allow)) {
+      match = rule;
+    }
+  }
+  return match ? match.allow : true;
+};
+
+export const crawlDelayFor = (robots: RobotsTxt, agentToken: string) => groupFor(robots, agentToken)?.crawlDelay;
+
+// Missing robots.txt (4xx) allows everything; a server error disallows everything
+// until the next check. A timeout or network failure is thrown and not cached, so
+// the page is not fetched without its rules and the next request asks again.
+const downloadRobotsTxt = async (origin: string, userAgent: string, timeout: number) => {
+  const response = await publicGet(`${origin}/robots.txt`, {
+    headers: { 'User-Agent': userAgent, 'Accept': 'text/plain' },
+    timeout,
+    responseType: 'text',
+    // Crawlers stop reading robots.txt at 500 KiB
+    maxBytes: 500 * 1024,
+    validateStatus: () => true
+  });
+  if (response.status >= 200 && response.status < 300) {
+    return { robots: parseRobotsTxt(String(response.data)), ttl: cacheTtlMs };
+  }
+  if (response.status >= 500) {
+    return { robots: disallowAll, ttl: retryTtlMs };
+  }
+  return { robots: allowAll, ttl: cacheTtlMs };
+};
+
+// Concurrent requests to one origin share a single robots.txt download. A
+// scrape short of time passes a shorter timeout, and fails once there is too
+// little left to download the file at all.
+export const fetchRobotsTxt = (origin: string, userAgent: string, timeout = 5000): Promise<RobotsTxt> => {
+  const cached = cache.get(origin);
+  if (cached && cached.expires > Date.now()) {
+    return cached.robots;
+  }
+  if (timeout < minTimeoutMs) {
+    return Promise.reject(new ScrapeError('TIMEOUT', `No time was left to read the robots.txt of ${new URL(origin).hostname}.`));
+  }
+
+  const entry = {
+    expires: Infinity,
+    robots: downloadRobotsTxt(origin, userAgent, timeout).then(({ robots, ttl }) => {
+      entry.expires = Date.now() + ttl;
+      return robots;
+    }, error => {
+      console.log('Could not fetch robots.txt for', origin, error.message);
+      if (cache.get(origin) === entry) cache.delete(origin);
+      throw error;
+    })
+  };
+  cache.set(origin, entry);
+  return entry.robots;
+};
+
+export const getRobotsPolicy = async (url: string, userAgent: string, timeout?: number): Promise<RobotsPolicy> => {
+  const robots = await fetchRobotsTxt(new URL(url).origin, userAgent, timeout);
+  const agentToken = userAgent.split('/')[0];
+  return {
+    allowed: isAllowedByRobots(robots, agentToken, url),
+    crawlDelay: crawlDelayFor(robots, agentToken)
+  };
+};
+
+// Space out request starts to one host by its crawl delay. A turn that would
+// come after the deadline is not taken: the request fails with a timeout instead.
+export const waitForCrawlDelay = async (host: string, crawlDelay: number | undefined, deadline?: number) => {
+  if (!crawlDelay) return;
+  const delayMs = Math.min(crawlDelay, maxCrawlDelay) * 1000;
+  const now = Date.now();
+  const slot = Math.max(now, nextSlot.get(host) || 0);
+  if (deadline !== undefined && slot >= deadline) {
+    throw new ScrapeError('TIMEOUT', `${host} asks for ${crawlDelay} seconds between requests, and the scrape ran out of time waiting.`);
+  }
+  nextSlot.set(host, slot + delayMs);
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
+};
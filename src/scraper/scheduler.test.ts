@@ -0,0 +1,80 @@
+import { createScheduler, jobId, nextDelay } from './scheduler';
+import { NewsSource } from './sources';
+import { ScrapeResult } from './types';
+
+const source: NewsSource = { name: 'Example News', url: 'https://news.example.com/', description: '', intervalMinutes: 10 };
+const result: ScrapeResult = {
+  news: [],
+  skipped: [],
+  profile: { name: 'default', matchedHost: null },
+  stored: { added: 2, updated: 0, unchanged: 1 }
+};
+
+const flush = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test('backs off exponentially with jitter and a cap', () => {
+  const middle = () => 0.5;
+  expect(nextDelay(10, 0, { random: middle })).toBe(10 * 60000);
+  expect(nextDelay(10, 2, { random: middle })).toBe(40 * 60000);
+  expect(nextDelay(10, 10, { random: middle, maxBackoffMinutes: 60 })).toBe(60 * 60000);
+  expect(nextDelay(10, 0, { random: () => 1, jitter: 0.1 })).toBe(11 * 60000);
+  expect(nextDelay(10, 0, { random: () => 0, jitter: 0.1 })).toBe(9 * 60000);
+});
+
+test('runs sources on their interval and records the outcome', async () => {
+  jest.useFakeTimers();
+  const run = jest.fn(async () => result);
+  const scheduler = createScheduler([source], run, { random: () => 0, jitter: 0 });
+
+  scheduler.start();
+  jest.advanceTimersByTime(0);
+  await flush();
+  expect(run).toHaveBeenCalledTimes(1);
+  expect(scheduler.status()[0]).toMatchObject({
+    id: 'example-news',
+    running: false,
+    consecutiveFailures: 0,
+    lastResult: { articles: 0, stored: { added: 2, updated: 0, unchanged: 1 } }
+  });
+
+  jest.advanceTimersByTime(10 * 60000);
+  await flush();
+  expect(run).toHaveBeenCalledTimes(2);
+  scheduler.stop();
+  expect(scheduler.status()[0].nextRunAt).toBeNull();
+});
+
+test('failures are reported and delay the next run', async () => {
+  jest.useFakeTimers();
+  const run = jest.fn(async (): Promise<ScrapeResult> => {
+    throw new Error('boom');
+  });
+  const scheduler = createScheduler([source], run, { random: () => 0, jitter: 0 });
+
+  scheduler.start();
+  jest.advanceTimersByTime(0);
+  await flush();
+  expect(scheduler.status()[0]).toMatchObject({ consecutiveFailures: 1, lastError: 'Error setting up the request. Please try again.' });
+
+  jest.advanceTimersByTime(10 * 60000);
+  await flush();
+  expect(run).toHaveBeenCalledTimes(1);
+  jest.advanceTimersByTime(10 * 60000);
+  await flush();
+  expect(run).toHaveBeenCalledTimes(2);
+  scheduler.stop();
+});
+
+test('runs a job on demand', async () => {
+  const run = jest.fn(async () => result);
+  const scheduler = createScheduler([source], run);
+
+  expect(scheduler.runNow(jobId(source.name))).toBe(true);
+  expect(scheduler.runNow('missing')).toBe(false);
+  await flush();
+  expect(run).toHaveBeenCalledTimes(1);
+});
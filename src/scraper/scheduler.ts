@@ -0,0 +1,149 @@
+import fs from 'fs';
+import { toScrapeError } from './errors';
+import { NewsSource } from './sources';
+import { JobStatus, ScrapeResult } from './types';
+
+export interface SchedulerOptions {
+  // Each wait is moved by up to this fraction either way so sources drift apart
+  jitter?: number;
+  // Failed sources back off exponentially up to this many minutes
+  maxBackoffMinutes?: number;
+  // The first runs are spread over this many minutes after start
+  startupSpreadMinutes?: number;
+  random?: () => number;
+}
+
+export interface Scheduler {
+  start: () => void;
+  stop: () => void;
+  status: () => JobStatus[];
+  // Run a job now, outside its schedule; false when it is unknown or already running
+  runNow: (id: string) => boolean;
+}
+
+const minute = 60 * 1000;
+
+export const jobId = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Read a JSON array of { name, url, intervalMinutes } to crawl instead of the presets
+export const loadSources = (file: string): NewsSource[] => {
+  const parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${file}: expected an array of sources`);
+  }
+  return parsed.map((source: any, i: number) => {
+    if (!source || typeof source.name !== 'string' || typeof source.url !== 'string') {
+      throw new Error(`${file}: source ${i} needs a name and a url`);
+    }
+    try {
+      new URL(source.url);
+    } catch (e) {
+      throw new Error(`${file}: source ${source.name} has an invalid url`);
+    }
+    const intervalMinutes = Number(source.intervalMinutes ?? 30);
+    if (!(intervalMinutes >= 1)) {
+      throw new Error(`${file}: source ${source.name} needs an intervalMinutes of at least 1`);
+    }
+    return { name: source.name, url: source.url, description: source.description || '', intervalMinutes };
+  });
+};
+
+// Interval after a success, doubled per consecutive failure up to the cap, then jittered
+export const nextDelay = (
+  intervalMinutes: number,
+  consecutiveFailures: number,
+  { jitter = 0.1, maxBackoffMinutes = 360, random = Math.random }: SchedulerOptions = {}
+) => {
+  const base = consecutiveFailures > 0
+    ? Math.min(intervalMinutes * 2 ** consecutiveFailures, Math.max(intervalMinutes, maxBackoffMinutes))
+    : intervalMinutes;
+  return Math.round(base * minute * (1 + jitter * (random() * 2 - 1)));
+};
+
+// Re-crawl each source on its own timer. run does the scrape (and any storing);
+// a failed run only delays that source, it never stops the others.
+export const createScheduler = (
+  sources: NewsSource[],
+  run: (source: NewsSource) => Promise<ScrapeResult>,
+  options: SchedulerOptions = {}
+): Scheduler => {
+  const random = options.random || Math.random;
+  const startupSpread = (options.startupSpreadMinutes ?? 5) * minute;
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  let started = false;
+
+  const jobs = sources.map(source => ({
+    source,
+    status: {
+      id: jobId(source.name),
+      name: source.name,
+      url: source.url,
+      intervalMinutes: source.intervalMinutes,
+      running: false,
+      lastRunAt: null,
+      lastSuccessAt: null,
+      lastError: null,
+      consecutiveFailures: 0,
+      nextRunAt: null,
+      lastResult: null
+    } as JobStatus
+  }));
+
+  const schedule = (job: typeof jobs[number], delayMs: number) => {
+    if (!started) return;
+    clearTimeout(timers.get(job.status.id) as ReturnType<typeof setTimeout>);
+    job.status.nextRunAt = new Date(Date.now() + delayMs).toISOString();
+    const timer = setTimeout(() => execute(job), delayMs);
+    // Pending crawls should not keep the process alive on their own
+    if (typeof timer === 'object' && timer.unref) timer.unref();
+    timers.set(job.status.id, timer);
+  };
+
+  const execute = async (job: typeof jobs[number]) => {
+    if (job.status.running) return;
+    const { status, source } = job;
+    status.running = true;
+    status.nextRunAt = null;
+    status.lastRunAt = new Date().toISOString();
+    console.log('Scheduled scrape of', source.name);
+
+    try {
+      const result = await run(source);
+      status.lastSuccessAt = new Date().toISOString();
+      status.lastError = null;
+      status.consecutiveFailures = 0;
+      status.lastResult = { articles: result.news.length, ...(result.stored ? { stored: result.stored } : {}) };
+    } catch (error) {
+      status.lastError = toScrapeError(error).message;
+      status.consecutiveFailures++;
+      console.error('Scheduled scrape of', source.name, 'failed:', status.lastError);
+    } finally {
+      status.running = false;
+      schedule(job, nextDelay(source.intervalMinutes, status.consecutiveFailures, { ...options, random }));
+    }
+  };
+
+  return {
+    start: () => {
+      if (started) return;
+      started = true;
+      jobs.forEach(job => schedule(job, Math.round(random() * Math.min(startupSpread, job.source.intervalMinutes * minute))));
+    },
+    stop: () => {
+      started = false;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+      jobs.forEach(job => {
+        job.status.nextRunAt = null;
+      });
+    },
+    status: () => jobs.map(job => ({ ...job.status })),
+    runNow: id => {
+      const job = jobs.find(candidate => candidate.status.id === id);
+      if (!job || job.status.running) return false;
+      clearTimeout(timers.get(id) as ReturnType<typeof setTimeout>);
+      execute(job);
+      return true;
+    }
+  };
+};
@@ -0,0 +1,366 @@
+import * as cheerio from 'cheerio';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { getProfile } from './profiles';
+import { extractArticle, extractNewsItem, findArticleLinks, parseRequestBody, scrapeRequestOptions } from './scrape';
+import { SiteProfile } from './types';
+
+const profile = getProfile('example.com');
+const selectors = profile.selectors;
+
+test('finds article links inside article containers', () => {
+  const $ = cheerio.load(`
+    <article><a href="/news/2024/01/02/story">Story</a></article>
+    <nav><a href="/about">About</a></nav>
+  `);
+
+  expect(findArticleLinks($, 'https://example.com/', profile)).toEqual([
+    'https://example.com/news/2024/01/02/story'
+  ]);
+});
+
+test('considers links outside article containers too', () => {
+  const $ = cheerio.load('<div><a href="https://example.com/story/typhoon-hits-northern-luzon">Story</a></div>');
+
+  expect(findArticleLinks($, 'https://example.com/', profile)).toEqual([
+    'https://example.com/story/typhoon-hits-northern-luzon'
+  ]);
+});
+
+test('extracts a news item matching the NewsItem shape', () => {
+  const $ = cheerio.load(`
+    <h1>Headline</h1>
+    <span class="author">Juan Dela Cruz</span>
+    <time>2024-01-02</time>
+    <img class="featured-image" src="/img/photo.jpg">
+    <div class="article-body"><p>The body of the story, long enough to count as a paragraph.</p></div>
+  `);
+
+  expect(extractNewsItem($, 'https://example.com/news/1', selectors, 'example.com')).toEqual({
+    title: 'Headline',
+    author: 'Juan Dela Cruz',
+    authors: ['Juan Dela Cruz'],
+    // Midnight in Manila, the default zone
+    date: '2024-01-01T16:00:00.000Z',
+    dateConfidence: 'day',
+    source: 'example.com',
+    url: 'https://example.com/news/1',
+    imageUrl: 'https://example.com/img/photo.jpg',
+    image: { url: 'https://example.com/img/photo.jpg' },
+    content: 'The body of the story, long enough to count as a paragraph.',
+    fieldSources: {
+      title: 'selector',
+      author: 'selector',
+      date: 'selector',
+      imageUrl: 'selector',
+      content: 'readability'
+    }
+  });
+});
+
+test('prefers structured data over site selectors', () => {
+  const $ = cheerio.load(`
+    <head>
+      <meta property="og:title" content="Real headline">
+      <meta property="og:image" content="/img/lead.jpg">
+    </head>
+    <h1>Site name</h1>
+    <span class="author">Juan Dela Cruz</span>
+  `);
+  const item = extractNewsItem($, 'https://example.com/news/1', selectors, 'example.com');
+
+  expect(item?.title).toBe('Real headline');
+  expect(item?.imageUrl).toBe('https://example.com/img/lead.jpg');
+  expect(item?.fieldSources).toEqual({ title: 'opengraph', imageUrl: 'opengraph', author: 'selector' });
+  expect(item?.date).toBeNull();
+  expect(item?.dateConfidence).toBe('none');
+});
+
+test('returns null without a title', () => {
+  expect(extractNewsItem(cheerio.load('<p>No heading</p>'), 'https://example.com/news/1', selectors, 'example.com')).toBeNull();
+});
+
+test('reports the selector that matched each field, or why nothing was extracted', () => {
+  const $ = cheerio.load(`
+    <meta property="og:title" content="Headline">
+    <span class="author">Juan Dela Cruz</span>
+    <time datetime="2024-01-02T08:00:00+08:00">Jan 2</time>
+  `);
+  const { fields } = extractArticle($, 'https://example.com/news/1', selectors, 'example.com');
+
+  expect(fields.title).toEqual({ source: 'opengraph' });
+  expect(fields.author).toEqual({ source: 'selector', selector: '.author' });
+  expect(fields.date?.source).toBe('selector');
+  expect(selectors.date.concat('time[datetime]')).toContain(fields.date?.selector);
+
+  const empty = extractArticle(cheerio.load('<p>No heading</p>'), 'https://example.com/news/1', selectors, 'example.com');
+  expect(empty.item).toBeNull();
+  expect(empty.reason).toMatch(/^No title/);
+});
+
+test('reads the render mode from a scrape request', () => {
+  expect(scrapeRequestOptions({ render: 'auto' }).render).toBe('auto');
+  expect(scrapeRequestOptions({ render: true }).render).toBe('always');
+  expect(scrapeRequestOptions({}).render).toBeUndefined();
+  expect(() => scrapeRequestOptions({ render: 'sometimes' })).toThrow('render must be one of never, auto, always');
+});
+
+test('refuses a request body that is not JSON', () => {
+  expect(parseRequestBody('{"url":"https://example.com/"}')).toEqual({ url: 'https://example.com/' });
+  expect(parseRequestBody(null)).toEqual({});
+  expect(() => parseRequestBody('{"url":')).toThrow(expect.objectContaining({ status: 400, code: 'INVALID_BODY' }));
+});
+
+type LocalSite = Record<string, { status?: number; type?: string; body: string; delayMs?: number }>;
+
+// Runs a fresh scrape module against a site served on 127.0.0.1, the only
+// private address let through, with the default profile changed by patch
+const withLocalSite = async (
+  site: LocalSite,
+  patch: Partial<SiteProfile>,
+  run: (scrape: typeof import('./scrape'), base: string) => Promise<void>
+) => {
+  const server = http.createServer((req, res) => {
+    const page = site[req.url || ''];
+    setTimeout(() => {
+      res.writeHead(page ? page.status ?? 200 : 404, { 'Content-Type': page?.type || 'text/html' });
+      res.end(page ? page.body : 'Not found');
+    }, page?.delayMs || 0);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-'));
+  fs.copyFileSync(path.resolve('profiles/schema.json'), path.join(dir, 'schema.json'));
+  const defaults = JSON.parse(fs.readFileSync(path.resolve('profiles/default.json'), 'utf8'));
+  fs.writeFileSync(path.join(dir, 'default.json'), JSON.stringify({ ...defaults, ...patch }));
+  process.env.ALLOW_PRIVATE_NETWORKS = '127.0.0.1';
+  process.env.PROFILES_DIR = dir;
+
+  try {
+    let scrape: typeof import('./scrape') = {} as any;
+    jest.isolateModules(() => {
+      scrape = require('./scrape');
+    });
+    await run(scrape, `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  } finally {
+    delete process.env.ALLOW_PRIVATE_NETWORKS;
+    delete process.env.PROFILES_DIR;
+    server.close();
+    fs.rmSync(dir, { recursive: true });
+  }
+};
+
+const articlePage = (title: string, date: string) => `<html><body><article>
+  <h1>${title}</h1>
+  <time datetime="${date}">${date}</time>
+  <p>${title} is the lead story today, and this paragraph is long enough to count as its body text.</p>
+</article></body></html>`;
+
+test('follows a load-more endpoint that answers with JSON', async () => {
+  const site: LocalSite = {
+    '/news': { body: '<html><body><article><a href="/news/2024/05/01/first-story">First story</a></article></body></html>' },
+    '/api/more?page=2': {
+      type: 'application/json; charset=utf-8',
+      body: JSON.stringify({ items: [{ link: '/news/2024/05/02/second-story' }] })
+    },
+    '/news/2024/05/01/first-story': { body: articlePage('First story', '2024-05-01T08:00:00Z') },
+    '/news/2024/05/02/second-story': { body: articlePage('Second story', '2024-05-02T08:00:00Z') }
+  };
+  const pagination = { loadMore: { url: '/api/more?page={page}', itemsPath: 'items', urlField: 'link' } };
+
+  await withLocalSite(site, { pagination }, async (scrape, base) => {
+    const result = await scrape.scrapeNews(`${base}/news`, { maxPages: 2 });
+
+    expect(result.news.map(item => item.title).sort()).toEqual(['First story', 'Second story']);
+    expect(result.diagnostics).toMatchObject({ via: 'links', listingPages: 2, linksFollowed: 2, articlesExtracted: 2 });
+  });
+});
+
+test('holds load-more URLs to the same link rules as the page', async () => {
+  const site: LocalSite = {
+    '/news': { body: '<html><body><article><a href="/news/2024/05/01/first-story">First story</a></article></body></html>' },
+    '/api/more?page=2': {
+      type: 'application/json',
+      body: JSON.stringify({
+        items: [
+          { link: '/news/2024/05/02/second-story' },
+          { link: 'https://elsewhere.example/news/2024/05/02/planted-story' },
+          { link: '/news/2024/05/02/report.pdf' },
+          { link: '/news/2024/05/03/sponsored-story' }
+        ]
+      })
+    },
+    '/news/2024/05/01/first-story': { body: articlePage('First story', '2024-05-01T08:00:00Z') },
+    '/news/2024/05/02/second-story': { body: articlePage('Second story', '2024-05-02T08:00:00Z') }
+  };
+  const pagination = { loadMore: { url: '/api/more?page={page}', itemsPath: 'items', urlField: 'link' } };
+
+  await withLocalSite(site, { pagination, linkPatterns: { exclude: ['sponsored'] } }, async (scrape, base) => {
+    const result = await scrape.scrapeNews(`${base}/news`, { maxPages: 2, debug: true });
+
+    expect(result.diagnostics?.articles.map(article => article.url)).toEqual([
+      `${base}/news/2024/05/01/first-story`,
+      `${base}/news/2024/05/02/second-story`
+    ]);
+    expect(Object.fromEntries((result.debug?.rejectedLinks || []).map(link => [link.url, link.reasons[0]]))).toEqual({
+      'https://elsewhere.example/news/2024/05/02/planted-story': 'off-site link to elsewhere.example',
+      [`${base}/news/2024/05/02/report.pdf`]: 'not an HTML page',
+      [`${base}/news/2024/05/03/sponsored-story`]: 'matches exclude pattern sponsored'
+    });
+  });
+});
+
+test('gives up on a slow site by the deadline instead of retrying', async () => {
+  const site: LocalSite = { '/news': { body: '<html></html>', delayMs: 3000 } };
+
+  await withLocalSite(site, {}, async (scrape, base) => {
+    const startedAt = Date.now();
+    await expect(scrape.scrapeNews(`${base}/news`, { deadlineMs: 1500 })).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(Date.now() - startedAt).toBeLessThan(2500);
+  });
+});
+
+// A listing that only fills in its links with JavaScript, as the renderer would see it once run
+const scriptedSite: LocalSite = {
+  '/news': { body: '<html><body><div id="app"></div><script src="/app.js"></script></body></html>' },
+  '/news/2024/06/01/rendered-story': { body: articlePage('Rendered story', '2024-06-01T08:00:00Z') }
+};
+const pageStub = () => jest.fn(async (url: string) => ({
+  status: 200,
+  html: url.endsWith('/news')
+    ? '<html><body><article><a href="/news/2024/06/01/rendered-story">Rendered story</a></article></body></html>'
+    : articlePage('Rendered story', '2024-06-01T08:00:00Z')
+}));
+
+test('renders only when asked to, or in auto mode when the page has no links', async () => {
+  await withLocalSite(scriptedSite, {}, async (scrape, base) => {
+    const neverStub = pageStub();
+    await expect(scrape.scrapeNews(`${base}/news`, { renderPage: neverStub })).rejects.toMatchObject({ code: 'NO_ARTICLES' });
+    expect(neverStub).not.toHaveBeenCalled();
+
+    const autoStub = pageStub();
+    const result = await scrape.scrapeNews(`${base}/news`, { render: 'auto', renderPage: autoStub });
+    expect(result.news.map(item => item.title)).toEqual(['Rendered story']);
+    expect(result.rendered).toBe(2);
+    expect(autoStub.mock.calls.map(([url]) => url)).toEqual([`${base}/news`, `${base}/news/2024/06/01/rendered-story`]);
+
+    const alwaysStub = pageStub();
+    await scrape.scrapeNews(`${base}/news`, { render: 'always', renderPage: alwaysStub });
+    expect(alwaysStub).toHaveBeenCalledTimes(2);
+  });
+});
+
+test('refuses to render without a renderer', async () => {
+  await withLocalSite(scriptedSite, { render: 'auto' }, async (scrape, base) => {
+    // The profile asks for auto, which falls back to the static page without suggesting a render
+    await expect(scrape.scrapeNews(`${base}/news`)).rejects.toMatchObject({
+      code: 'NO_ARTICLES',
+      message: expect.not.stringContaining('rendering')
+    });
+    await expect(scrape.scrapeNews(`${base}/news`, { render: 'always' })).rejects.toMatchObject({
+      code: 'RENDER_UNAVAILABLE',
+      status: 501
+    });
+  });
+});
+
+const listingOf = (...paths: string[]) =>
+  `<html><body>${paths.map(href => `<article><a href="${href}">${href}</a></article>`).join('')}</body></html>`;
+
+test('prefers an advertised feed to following links', async () => {
+  const rss = `<?xml version="1.0"?><rss version="2.0"><channel><title>Local</title>
+    <item><title>Feed story</title><link>https://example.com/news/feed-story</link><pubDate>Mon, 03 Jun 2024 08:00:00 GMT</pubDate></item>
+  </channel></rss>`;
+  const site: LocalSite = {
+    '/news': { body: '<html><head><link rel="alternate" type="application/rss+xml" href="/rss"></head><body></body></html>' },
+    '/rss': { type: 'application/rss+xml', body: rss }
+  };
+
+  await withLocalSite(site, {}, async (scrape, base) => {
+    const result = await scrape.scrapeNews(`${base}/news`);
+
+    expect(result.feedUrl).toBe(`${base}/rss`);
+    expect(result.news.map(item => item.title)).toEqual(['Feed story']);
+    expect(result.diagnostics).toMatchObject({
+      via: 'feed',
+      feedUrl: `${base}/rss`,
+      articlesExtracted: 1,
+      articles: [{ url: 'https://example.com/news/feed-story', outcome: 'extracted' }]
+    });
+  });
+});
+
+test('records what happened to every followed link', async () => {
+  const site: LocalSite = {
+    '/news': { body: listingOf('/news/2024/06/01/good-story', '/news/2024/06/02/gone-story', '/news/2024/06/03/empty-story', '/news/2024/06/04/slow-story') },
+    '/news/2024/06/01/good-story': { body: articlePage('Good story', '2024-06-01T08:00:00Z') },
+    '/news/2024/06/03/empty-story': { body: '<html><body><p>Subscribe to read on.</p></body></html>' },
+    '/news/2024/06/04/slow-story': { body: articlePage('Slow story', '2024-06-04T08:00:00Z'), delayMs: 5000 }
+  };
+
+  await withLocalSite(site, {}, async (scrape, base) => {
+    const result = await scrape.scrapeNews(`${base}/news`, { deadlineMs: 2000 });
+    const outcomes = Object.fromEntries((result.diagnostics?.articles || []).map(article => [article.url, article]));
+
+    expect(result.news.map(item => item.title)).toEqual(['Good story']);
+    expect(result.skipped).toEqual([`${base}/news/2024/06/04/slow-story`]);
+    expect(outcomes[`${base}/news/2024/06/01/good-story`]).toMatchObject({ outcome: 'extracted', status: 200 });
+    expect(outcomes[`${base}/news/2024/06/02/gone-story`]).toMatchObject({ outcome: 'failed', status: 404, reason: 'Status code: 404' });
+    expect(outcomes[`${base}/news/2024/06/03/empty-story`]).toMatchObject({ outcome: 'discarded', status: 200 });
+    expect(outcomes[`${base}/news/2024/06/04/slow-story`]).toMatchObject({ outcome: 'skipped' });
+    // Skipped links were never answered, so they are not counted
+    expect(result.diagnostics).toMatchObject({
+      via: 'links',
+      pageStatus: 200,
+      linksFollowed: 4,
+      articlesExtracted: 1,
+      statuses: { '200': 2, '404': 1 }
+    });
+  });
+});
+
+test('sends what the scrape got through along with its error', async () => {
+  const site: LocalSite = { '/news': { body: listingOf('/news/2024/06/01/first-gone', '/news/2024/06/02/second-gone') } };
+
+  await withLocalSite(site, {}, async (scrape, base) => {
+    const error = await scrape.scrapeNews(`${base}/news`).catch(e => e);
+    expect(error).toMatchObject({ code: 'NO_ARTICLES', status: 404 });
+    expect(error.diagnostics).toMatchObject({ via: 'links', linksFollowed: 2, articlesExtracted: 0, statuses: { '404': 2 } });
+    expect(error.diagnostics.articles.map((article: { outcome: string }) => article.outcome)).toEqual(['failed', 'failed']);
+
+    const lines: string[] = [];
+    await scrape.streamScrapeNews(`${base}/news`, {}, line => lines.push(line));
+    expect(JSON.parse(lines[lines.length - 1])).toMatchObject({
+      type: 'error',
+      status: 404,
+      code: 'NO_ARTICLES',
+      diagnostics: { linksFollowed: 2, statuses: { '404': 2 } }
+    });
+  });
+});
+
+test('stops fetching and writing once the client goes away', async () => {
+  const site: LocalSite = {
+    '/news': { body: listingOf('/news/2024/06/01/slow-story', '/news/2024/06/02/slower-story', '/news/2024/06/03/queued-story') },
+    '/news/2024/06/01/slow-story': { body: articlePage('Slow story', '2024-06-01T08:00:00Z'), delayMs: 3000 },
+    '/news/2024/06/02/slower-story': { body: articlePage('Slower story', '2024-06-02T08:00:00Z'), delayMs: 3000 },
+    '/news/2024/06/03/queued-story': { body: articlePage('Queued story', '2024-06-03T08:00:00Z') }
+  };
+
+  await withLocalSite(site, {}, async (scrape, base) => {
+    const controller = new AbortController();
+    const lines: string[] = [];
+    const startedAt = Date.now();
+    await scrape.streamScrapeNews(`${base}/news`, { concurrency: 2, perHostConcurrency: 2, signal: controller.signal }, line => {
+      lines.push(line);
+      // The client disconnects as soon as it knows how many links there are
+      if (JSON.parse(line).type === 'links') setTimeout(() => controller.abort(), 100);
+    });
+
+    expect(Date.now() - startedAt).toBeLessThan(1500);
+    expect(JSON.parse(lines[lines.length - 1]).type).toBe('links');
+    await expect(scrape.scrapeNews(`${base}/news`, { signal: controller.signal })).rejects.toMatchObject({ code: 'CANCELLED' });
+  });
+});
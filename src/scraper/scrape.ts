@@ -0,0 +1,790 @@
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import { authorsFromElements, formatAuthors, splitAuthors } from './authors';
+import { fetchWithCache, PageResponse } from './cache';
+import { dateFromElements, DateParseOptions, parseDate } from './dates';
+import { ScrapeError, errorResponse, throwIfCancelled, toScrapeError } from './errors';
+import { discoverFeedUrls, isFeedDocument, parseFeed } from './feeds';
+import { extractImage } from './images';
+import { extractCanonicalUrl, extractMetadata } from './metadata';
+import { runPool } from './pool';
+import { classifyLinks, collectLinkCandidates, LinkClassification } from './links';
+import { checkPublicUrl, maxPageBytes, pageContentTypes, publicGet, publicUrl } from './network';
+import { loadMoreUrl, maxPagesLimit, nextPageUrl, readLoadMore } from './pagination';
+import { getProfile, resolveProfile } from './profiles';
+import { extractMainContent } from './readability';
+import { hostCircuits, isRetryable, isRetryableStatus, withRetries } from './retry';
+import { fetchRobotsTxt, getRobotsPolicy, waitForCrawlDelay } from './robots';
+import { loadSitemapEntries, SitemapEntry } from './sitemaps';
+import {
+  ArticleDetails, ArticleDiagnostic, ArticleField, FieldMatch, FieldSource, NewsItem, OutboundSlot, PageRenderer, RejectedLink,
+  RenderMode, ScrapeDiagnostics, ScrapeEvent, ScrapeOptions, ScrapeResult, SiteProfile, SiteSelectors
+} from './types';
+
+// Identify ourselves honestly; the part before the slash is the robots.txt token
+export const userAgent = process.env.SCRAPER_USER_AGENT || 'NewsScraper/0.1 (+https://github.com/Takashiqt/Activity7)';
+
+const headers = {
+  'User-Agent': userAgent,
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5'
+};
+
+export const defaultScrapeOptions = {
+  concurrency: 6,
+  perHostConcurrency: 3,
+  deadlineMs: 30000
+};
+
+// Time a headless render may take, within the scrape's own deadline
+const renderTimeoutMs = 20000;
+const pageTimeoutMs = 10000;
+const robotsTimeoutMs = 5000;
+
+// A request timeout that ends by the scrape's deadline, when it has one
+const timeLeft = (deadline: number | undefined, limitMs: number) =>
+  deadline === undefined ? limitMs : Math.max(1, Math.min(limitMs, deadline - Date.now()));
+
+const checkRobots = async (url: string, deadline?: number) => {
+  const { allowed, crawlDelay } = await getRobotsPolicy(url, userAgent, timeLeft(deadline, robotsTimeoutMs));
+  if (!allowed) {
+    const { hostname, pathname } = new URL(url);
+    throw new ScrapeError('ROBOTS_DISALLOWED', `${hostname} does not allow scraping ${pathname} in its robots.txt.`);
+  }
+  return crawlDelay;
+};
+
+// Holds one of the server's outbound slots, when it has a budget, for the length of task
+const withSlot = async <T>(slot: OutboundSlot | undefined, task: () => Promise<T>) => {
+  const release = slot ? await slot() : undefined;
+  try {
+    return await task();
+  } finally {
+    release?.();
+  }
+};
+
+interface PageFetchOptions {
+  slot?: OutboundSlot;
+  // Content types the page may have; pageContentTypes unless set
+  contentTypes?: string[];
+  // The scrape's deadline: attempts time out by then and are not retried past it
+  deadline?: number;
+  // The scrape's cancellation, which also cancels a download in flight
+  signal?: AbortSignal;
+}
+
+// Load-more endpoints answer with JSON as often as with an HTML fragment
+const loadMoreContentTypes = [...pageContentTypes, 'application/json'];
+
+// Every page request checks the address and robots.txt; the cache answers or
+// revalidates before the host's crawl delay is waited out for a real download.
+// Downloads are retried on transient failures, and hosts that keep failing are
+// skipped by the circuit breaker (cached copies are still served).
+const fetchPage = async (url: string, extraHeaders: Record<string, string> = {}, { slot, contentTypes, deadline, signal }: PageFetchOptions = {}) => {
+  throwIfCancelled(signal);
+  const { hostname } = publicUrl(url);
+  const crawlDelay = await checkRobots(url, deadline);
+
+  const requestHeaders = { ...headers, ...extraHeaders, 'User-Agent': userAgent };
+  return fetchWithCache(url, requestHeaders, async conditionalHeaders => {
+    hostCircuits.check(hostname);
+    await waitForCrawlDelay(hostname, crawlDelay, deadline);
+    let response;
+    try {
+      response = await withRetries(() => withSlot(slot, () => publicGet(url, {
+        headers: conditionalHeaders,
+        timeout: timeLeft(deadline, pageTimeoutMs),
+        maxBytes: maxPageBytes,
+        contentTypes: contentTypes || pageContentTypes,
+        signal,
+        validateStatus: function (status) {
+          return status >= 200 && status < 500;
+        }
+      })), { deadline });
+    } catch (error) {
+      // A cancelled download says nothing about the host
+      if (signal?.aborted) throw error;
+      // Anything but a transient failure (a page too large, say) still means the host answered
+      if (isRetryable(error)) {
+        hostCircuits.failed(hostname);
+      } else {
+        hostCircuits.succeeded(hostname);
+      }
+      throw error;
+    }
+    if (isRetryableStatus(response.status)) {
+      hostCircuits.failed(hostname);
+    } else {
+      hostCircuits.succeeded(hostname);
+    }
+    return { status: response.status, headers: response.headers as Record<string, string>, data: response.data };
+  });
+};
+
+// Rendered pages follow the same robots.txt rules and crawl delay but skip the cache
+const renderPage = async (
+  url: string,
+  renderer: PageRenderer,
+  extraHeaders: Record<string, string> = {},
+  deadline: number,
+  slot?: OutboundSlot,
+  signal?: AbortSignal
+): Promise<PageResponse> => {
+  throwIfCancelled(signal);
+  await checkPublicUrl(url);
+  const crawlDelay = await checkRobots(url, deadline);
+  await waitForCrawlDelay(new URL(url).hostname, crawlDelay, deadline);
+  console.log('Rendering page:', url);
+  const page = await withSlot(slot, () => {
+    throwIfCancelled(signal);
+    return renderer(url, {
+      userAgent,
+      headers: extraHeaders,
+      timeoutMs: Math.max(1000, Math.min(renderTimeoutMs, deadline - Date.now()))
+    });
+  });
+  return { status: page.status, headers: { 'content-type': 'text/html' }, data: page.html };
+};
+
+const renderModes: RenderMode[] = ['never', 'auto', 'always'];
+
+const positiveInteger = (value: unknown, name: string) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new ScrapeError('INVALID_OPTION', `${name} must be a positive whole number`);
+  }
+  return number;
+};
+
+const renderModeOption = (value: unknown): RenderMode | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (value === true) return 'always';
+  if (value === false) return 'never';
+  if (!renderModes.includes(value as RenderMode)) {
+    throw new ScrapeError('INVALID_OPTION', `render must be one of ${renderModes.join(', ')}`);
+  }
+  return value as RenderMode;
+};
+
+// Options a client may set in the body of a scrape request
+export const scrapeRequestOptions = (body: any): ScrapeOptions => ({
+  includeHtml: Boolean(body?.includeHtml),
+  maxPages: positiveInteger(body?.maxPages, 'maxPages'),
+  maxArticles: positiveInteger(body?.maxArticles, 'maxArticles'),
+  debug: Boolean(body?.debug),
+  render: renderModeOption(body?.render)
+});
+
+// The JSON body of a request, which the Netlify functions receive as text
+export const parseRequestBody = (text: string | null | undefined) => {
+  try {
+    return JSON.parse(text || '{}');
+  } catch (e) {
+    throw new ScrapeError('INVALID_BODY', 'The request body is not valid JSON.');
+  }
+};
+
+const validateUrl = (url: string) => {
+  if (!url) {
+    throw new ScrapeError('INVALID_URL', 'URL is required');
+  }
+  return publicUrl(url);
+};
+
+// Classify every link on a listing page; see links.ts for the scoring
+export const classifyPageLinks = ($: CheerioAPI, pageUrl: string, profile: SiteProfile, sitemapUrls?: Set<string>) =>
+  classifyLinks(collectLinkCandidates($, pageUrl, profile.selectors.article), pageUrl, profile, sitemapUrls);
+
+export const findArticleLinks = ($: CheerioAPI, pageUrl: string, profile: SiteProfile): string[] =>
+  classifyPageLinks($, pageUrl, profile).accepted;
+
+// The first selector that yields a value, and the value
+const firstMatch = <T>(selectorList: string[], read: (selector: string) => T | null) => {
+  for (const selector of selectorList) {
+    const value = read(selector);
+    if (value) return { value, selector };
+  }
+  return null;
+};
+
+const firstText = ($: CheerioAPI, selectorList: string[]) =>
+  firstMatch(selectorList, selector => $(selector).first().text().trim() || null);
+
+// Structured data first, then the site's date selectors (datetime attributes before
+// text), then any <time datetime> on the page. Unreadable dates stay null.
+const extractDate = ($: CheerioAPI, metadata: ReturnType<typeof extractMetadata>, selectors: SiteSelectors, options: DateParseOptions) => {
+  const structured = metadata.date && parseDate(metadata.date.value, options);
+  if (structured) return { ...structured, source: metadata.date!.source, selector: undefined };
+  const selected = firstMatch([...selectors.date, 'time[datetime]'], selector => dateFromElements($, [selector], options));
+  return selected && { ...selected.value, source: 'selector' as const, selector: selected.selector };
+};
+
+// Structured data first, then the site's byline selectors
+const extractAuthors = ($: CheerioAPI, metadata: ReturnType<typeof extractMetadata>, selectors: SiteSelectors) => {
+  const structured = splitAuthors(metadata.author?.value);
+  if (structured.length) return { names: structured, source: metadata.author!.source, selector: undefined };
+  const selected = firstMatch(selectors.author, selector => {
+    const names = authorsFromElements($, [selector]);
+    return names.length ? names : null;
+  });
+  return selected
+    ? { names: selected.value, source: 'selector' as const, selector: selected.selector }
+    : { names: [] as string[], source: undefined, selector: undefined };
+};
+
+export const profileDateOptions = (profile: SiteProfile): DateParseOptions => ({
+  timeZone: profile.timeZone,
+  formats: profile.dateFormats
+});
+
+const fieldMatch = (source: FieldSource, selector?: string): FieldMatch => (selector ? { source, selector } : { source });
+
+// An extracted article with the source of each field, or why there is none
+export interface ExtractedArticle {
+  item: NewsItem | null;
+  fields: Partial<Record<ArticleField, FieldMatch>>;
+  reason?: string;
+}
+
+// Structured data wins; the site selectors only fill in what it leaves out
+export const extractArticle = (
+  $: CheerioAPI,
+  articleUrl: string,
+  selectors: SiteSelectors,
+  source: string,
+  includeHtml = false,
+  dateOptions: DateParseOptions = {}
+): ExtractedArticle => {
+  const metadata = extractMetadata($);
+  const fields: ExtractedArticle['fields'] = {};
+
+  let title = metadata.title?.value || '';
+  if (title) {
+    fields.title = fieldMatch(metadata.title!.source);
+  } else {
+    const selected = firstText($, selectors.title);
+    if (selected) {
+      title = selected.value;
+      fields.title = fieldMatch('selector', selected.selector);
+    }
+  }
+  if (!title) {
+    return { item: null, fields, reason: `No title in structured data or at ${selectors.title.join(', ') || 'any title selector'}` };
+  }
+
+  const authors = extractAuthors($, metadata, selectors);
+  if (authors.source) fields.author = fieldMatch(authors.source, authors.selector);
+  const date = extractDate($, metadata, selectors, dateOptions);
+  if (date) fields.date = fieldMatch(date.source, date.selector);
+  const image = extractImage($, articleUrl, selectors.image, metadata);
+  if (image) fields.imageUrl = fieldMatch(image.source, image.selector);
+
+  const mainContent = extractMainContent($, articleUrl);
+  let content = mainContent?.text || '';
+  if (content) {
+    fields.content = fieldMatch('readability');
+  } else if (metadata.description) {
+    content = metadata.description.value;
+    fields.content = fieldMatch(metadata.description.source);
+  }
+
+  const fieldSources: NonNullable<NewsItem['fieldSources']> = {};
+  (Object.keys(fields) as ArticleField[]).forEach(field => {
+    fieldSources[field] = fields[field]!.source;
+  });
+
+  return {
+    item: {
+      title,
+      author: formatAuthors(authors.names),
+      authors: authors.names,
+      date: date?.iso || null,
+      dateConfidence: date?.confidence || 'none',
+      source,
+      url: articleUrl,
+      canonicalUrl: extractCanonicalUrl($, articleUrl),
+      imageUrl: image?.image.url || null,
+      image: image?.image || null,
+      content: content || null,
+      ...(includeHtml ? { contentHtml: mainContent?.html || null } : {}),
+      fieldSources
+    },
+    fields
+  };
+};
+
+export const extractNewsItem = (...args: Parameters<typeof extractArticle>): NewsItem | null => extractArticle(...args).item;
+
+interface ListingOptions {
+  maxPages: number;
+  maxArticles?: number;
+  deadline: number;
+  emit: (event: ScrapeEvent) => void;
+  sitemapEntries: SitemapEntry[];
+  slot?: OutboundSlot;
+  signal?: AbortSignal;
+}
+
+// News sitemap entries added as links, newest first
+const maxSitemapLinks = 50;
+
+// Google News entries for the listing's section (or the whole site when the
+// section has none), newest first
+const sitemapNewsLinks = (entries: SitemapEntry[], listingUrl: string) => {
+  const news = entries.filter(entry => entry.publishedAt || entry.title);
+  const { pathname } = new URL(listingUrl);
+  const inSection = news.filter(entry => new URL(entry.url).pathname.startsWith(pathname));
+  return (inSection.length ? inSection : news)
+    .sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''))
+    .slice(0, maxSitemapLinks);
+};
+
+// Gather article links from the listing page and the pages after it. Stops at
+// maxPages, once maxArticles links are known, at the deadline, or when a page
+// fails or adds nothing new.
+const collectArticleLinks = async ($first: CheerioAPI, listingUrl: string, profile: SiteProfile, options: ListingOptions) => {
+  const rules = profile.pagination || {};
+  const links = new Set<string>();
+  const rejected = new Map<string, RejectedLink>();
+  const sitemapUrls = new Set(options.sitemapEntries.map(entry => entry.url));
+  const keep = (classification: LinkClassification) => {
+    classification.rejected.forEach(link => rejected.set(link.url, link));
+    return classification.accepted;
+  };
+  const classify = ($: CheerioAPI, pageUrl: string) => keep(classifyPageLinks($, pageUrl, profile, sitemapUrls));
+
+  classify($first, listingUrl).forEach(link => links.add(link));
+  const fromSitemap = sitemapNewsLinks(options.sitemapEntries, listingUrl)
+    .map(entry => ({ url: entry.url, text: entry.title || '', inContainer: false }));
+  keep(classifyLinks(fromSitemap, listingUrl, profile, sitemapUrls)).forEach(link => links.add(link));
+  const visited = new Set([listingUrl]);
+  const enough = () => options.maxArticles !== undefined && links.size >= options.maxArticles;
+  let $current: CheerioAPI | null = $first;
+  let currentUrl = listingUrl;
+  options.emit({ type: 'page', url: listingUrl, page: 1 });
+
+  for (let page = 2; page <= options.maxPages && !enough() && Date.now() < options.deadline && !options.signal?.aborted; page++) {
+    const next = nextPageUrl($current, currentUrl, listingUrl, page, rules);
+    const loadMore = next ? null : loadMoreUrl(rules, listingUrl, page, links.size);
+    const pageUrl = next || loadMore;
+    if (!pageUrl || visited.has(pageUrl)) break;
+    visited.add(pageUrl);
+
+    let found: string[];
+    try {
+      console.log('Fetching listing page', page, pageUrl);
+      const response = await fetchPage(pageUrl, profile.headers, {
+        slot: options.slot,
+        contentTypes: loadMore ? loadMoreContentTypes : undefined,
+        deadline: options.deadline,
+        signal: options.signal
+      });
+      if (response.status !== 200) break;
+
+      const loaded = loadMore ? readLoadMore(response.data, rules, pageUrl) : { html: String(response.data) };
+      if ('urls' in loaded) {
+        // Listed by the endpoint as articles, but held to the same rules as page links
+        $current = null;
+        const candidates = loaded.urls.map(url => ({ url, text: '', inContainer: true }));
+        found = keep(classifyLinks(candidates, listingUrl, profile, sitemapUrls));
+      } else {
+        $current = cheerio.load(loaded.html);
+        found = classify($current, pageUrl);
+      }
+    } catch (error) {
+      console.error('Error fetching listing page:', error);
+      break;
+    }
+
+    const before = links.size;
+    found.forEach(link => links.add(link));
+    if (links.size === before) break;
+    currentUrl = pageUrl;
+    options.emit({ type: 'page', url: pageUrl, page });
+  }
+
+  return {
+    links: Array.from(links),
+    rejected: Array.from(rejected.values()).filter(link => !links.has(link.url))
+  };
+};
+
+// Sitemaps named by the profile, else by robots.txt, else found at the common
+// paths; a profile with an empty list reads none
+const readSitemaps = async (pageUrl: string, profile: SiteProfile, deadline: number, slot?: OutboundSlot, signal?: AbortSignal) => {
+  if (profile.sitemaps?.length === 0) return { sitemaps: [], entries: [] };
+  const { origin } = new URL(pageUrl);
+  const known = profile.sitemaps
+    ? profile.sitemaps.map(sitemap => new URL(sitemap, origin).href)
+    : await fetchRobotsTxt(origin, userAgent, timeLeft(deadline, robotsTimeoutMs)).then(robots => robots.sitemaps, () => []);
+  return loadSitemapEntries(pageUrl, sitemapUrl => fetchPage(sitemapUrl, profile.headers, { slot, deadline, signal }), {
+    known,
+    probeCommonPaths: true,
+    deadline
+  });
+};
+
+// A sitemap publication date beats one read by selector (or none at all);
+// structured data on the page still wins
+const applySitemapEntry = (item: NewsItem, entry: SitemapEntry | undefined): NewsItem => {
+  if (!entry) return item;
+  const fieldSources = { ...item.fieldSources };
+  const applied = { ...item };
+  if (entry.publishedAt && (!fieldSources.date || fieldSources.date === 'selector')) {
+    applied.date = entry.publishedAt;
+    applied.dateConfidence = 'exact';
+    fieldSources.date = 'sitemap';
+  }
+  if (entry.imageUrl && !applied.imageUrl) {
+    applied.imageUrl = entry.imageUrl;
+    applied.image = { url: entry.imageUrl };
+    fieldSources.imageUrl = 'sitemap';
+  }
+  return { ...applied, fieldSources };
+};
+
+const findFeed = async (
+  $: CheerioAPI,
+  pageUrl: string,
+  source: string,
+  profile: SiteProfile,
+  deadline: number,
+  slot?: OutboundSlot,
+  signal?: AbortSignal
+) => {
+  for (const feedUrl of discoverFeedUrls($, pageUrl)) {
+    try {
+      console.log('Fetching feed:', feedUrl);
+      const response = await fetchPage(feedUrl, profile.headers, { slot, deadline, signal });
+      if (response.status === 200 && typeof response.data === 'string') {
+        const items = parseFeed(response.data, feedUrl, source);
+        if (items.length > 0) {
+          return { url: feedUrl, items };
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching feed:', error);
+    }
+  }
+  return null;
+};
+
+export const scrapeNews = async (url: string, options: ScrapeOptions = {}): Promise<ScrapeResult> => {
+  const startedAt = Date.now();
+  const concurrency = options.concurrency ?? defaultScrapeOptions.concurrency;
+  const perHostConcurrency = options.perHostConcurrency ?? defaultScrapeOptions.perHostConcurrency;
+  const deadlineMs = options.deadlineMs ?? defaultScrapeOptions.deadlineMs;
+  const deadline = startedAt + deadlineMs;
+  const hostname = validateUrl(url).hostname;
+
+  // Filled in as the scrape goes, and sent with its result or its error
+  const diagnostics: ScrapeDiagnostics = {
+    via: 'links',
+    listingPages: 0,
+    sitemapEntries: 0,
+    linksDiscovered: 0,
+    linksRejected: 0,
+    linksFollowed: 0,
+    articlesExtracted: 0,
+    statuses: {},
+    articles: [],
+    timings: { totalMs: 0 }
+  };
+  const articleRecords = new Map<string, ArticleDiagnostic>();
+  let articleLinks: string[] = [];
+  let skippedLinks: string[] = [];
+  const since = (time: number) => Date.now() - time;
+
+  // A snapshot in link order; fetches still running when the deadline passed count as skipped
+  const finishDiagnostics = (): ScrapeDiagnostics => {
+    const skipped = new Set(skippedLinks);
+    const articles = diagnostics.via === 'feed' ? diagnostics.articles : articleLinks.map(link =>
+      skipped.has(link) || !articleRecords.has(link)
+        ? { url: link, outcome: 'skipped' as const, reason: 'The scrape ran out of time before this link was fetched' }
+        : articleRecords.get(link) as ArticleDiagnostic);
+    const statuses: Record<string, number> = {};
+    articles.filter(article => article.outcome !== 'skipped').forEach(article => {
+      const key = article.status ? String(article.status) : 'error';
+      statuses[key] = (statuses[key] || 0) + 1;
+    });
+    return {
+      ...diagnostics,
+      articlesExtracted: articles.filter(article => article.outcome === 'extracted').length,
+      statuses,
+      articles,
+      timings: { ...diagnostics.timings, totalMs: since(startedAt) }
+    };
+  };
+
+  const emit = (event: ScrapeEvent) => {
+    if (event.type === 'page') diagnostics.listingPages++;
+    options.onEvent?.(event);
+  };
+
+  try {
+    const { profile, matchedHost } = resolveProfile(hostname);
+    const appliedProfile = { name: profile.name, matchedHost };
+    console.log('Using site profile', profile.name, 'for:', hostname);
+    emit({ type: 'profile', ...appliedProfile });
+
+    const renderMode = options.render ?? profile.render ?? 'never';
+    const renderer = renderMode === 'never' ? undefined : options.renderPage;
+    if (renderMode === 'always' && !renderer) {
+      throw new ScrapeError('RENDER_UNAVAILABLE', 'This server cannot render JavaScript pages. Try again without rendering.');
+    }
+    let rendered = 0;
+    const render = (pageUrl: string) => {
+      rendered++;
+      emit({ type: 'render', url: pageUrl });
+      return renderPage(pageUrl, renderer as PageRenderer, profile.headers, deadline, options.outboundSlot, options.signal);
+    };
+
+    console.log('Fetching content from:', url);
+    let stepStartedAt = Date.now();
+    const pageOptions = { slot: options.outboundSlot, deadline, signal: options.signal };
+    const response = renderMode === 'always' ? await render(url) : await fetchPage(url, profile.headers, pageOptions);
+    console.log('Response status:', response.status);
+    diagnostics.pageStatus = response.status;
+    diagnostics.timings.pageMs = since(stepStartedAt);
+
+    if (response.status === 403) {
+      throw new ScrapeError('BLOCKED_BY_SITE', 'Access to this website is forbidden. The website might be blocking scraping attempts.');
+    }
+
+    if (response.status !== 200) {
+      throw new ScrapeError('UPSTREAM_STATUS', `Failed to fetch the website. Status code: ${response.status}`);
+    }
+
+    // A store failure is logged but never costs the caller the articles
+    const withStored = (result: ScrapeResult): ScrapeResult => {
+      if (!options.saveArticles) return result;
+      try {
+        return { ...result, stored: options.saveArticles(result.news) };
+      } catch (error) {
+        console.error('Error saving articles:', error);
+        return result;
+      }
+    };
+
+    const fromFeed = (feed: { url: string; items: NewsItem[] }): ScrapeResult => {
+      const news = options.maxArticles !== undefined ? feed.items.slice(0, options.maxArticles) : feed.items;
+      console.log('Using feed', feed.url, 'with', news.length, 'articles');
+      emit({ type: 'feed', url: feed.url, total: news.length });
+      news.forEach(item => emit({ type: 'article', item }));
+      diagnostics.via = 'feed';
+      diagnostics.feedUrl = feed.url;
+      diagnostics.articles = news.map(item => ({ url: item.url, outcome: 'extracted' as const }));
+
+      if (news.length === 0) {
+        throw new ScrapeError('NO_ARTICLES', 'No news articles found in the feed.');
+      }
+      return withStored({ news, skipped: [], feedUrl: feed.url, profile: appliedProfile, diagnostics: finishDiagnostics() });
+    };
+
+    // Prefer a feed, either submitted directly or advertised by the page
+    if (isFeedDocument(response.headers['content-type'], response.data)) {
+      return fromFeed({ url, items: parseFeed(response.data, url, hostname) });
+    }
+
+    const $ = cheerio.load(response.data);
+    stepStartedAt = Date.now();
+    const feed = await findFeed($, url, hostname, profile, deadline, options.outboundSlot, options.signal);
+    diagnostics.timings.feedMs = since(stepStartedAt);
+    if (feed) {
+      return fromFeed(feed);
+    }
+
+    // Sitemaps get at most a quarter of the remaining time
+    stepStartedAt = Date.now();
+    const sitemapDeadline = Date.now() + (deadlineMs - (Date.now() - startedAt)) / 4;
+    const sitemap = await readSitemaps(url, profile, sitemapDeadline, options.outboundSlot, options.signal);
+    if (sitemap.sitemaps.length > 0) {
+      console.log('Read', sitemap.entries.length, 'sitemap entries from', sitemap.sitemaps.join(', '));
+      emit({ type: 'sitemap', urls: sitemap.sitemaps, total: sitemap.entries.length });
+    }
+    const sitemapEntries = new Map(sitemap.entries.map(entry => [entry.url, entry]));
+    diagnostics.sitemapEntries = sitemap.entries.length;
+    diagnostics.timings.sitemapsMs = since(stepStartedAt);
+
+    const maxPages = Math.min(options.maxPages ?? profile.pagination?.maxPages ?? 1, maxPagesLimit);
+    const listingOptions = {
+      maxPages,
+      maxArticles: options.maxArticles,
+      deadline,
+      emit,
+      sitemapEntries: sitemap.entries,
+      slot: options.outboundSlot,
+      signal: options.signal
+    };
+    stepStartedAt = Date.now();
+    let listing = await collectArticleLinks($, url, profile, listingOptions);
+
+    // A listing built by client-side scripts has no links in its HTML; its articles
+    // probably need the browser too
+    let renderArticles = renderMode === 'always';
+    if (listing.links.length === 0 && renderMode === 'auto' && renderer) {
+      try {
+        const renderedListing = await render(url);
+        if (renderedListing.status === 200) {
+          listing = await collectArticleLinks(cheerio.load(renderedListing.data), url, profile, listingOptions);
+          renderArticles = true;
+        }
+      } catch (error) {
+        console.error('Error rendering listing page:', error);
+      }
+    }
+    articleLinks = listing.links;
+    console.log('Found', articleLinks.length, 'article links,', listing.rejected.length, 'rejected');
+    if (options.maxArticles !== undefined) {
+      articleLinks = articleLinks.slice(0, options.maxArticles);
+    }
+    emit({ type: 'links', total: articleLinks.length });
+    diagnostics.linksDiscovered = listing.links.length;
+    diagnostics.linksRejected = listing.rejected.length;
+    diagnostics.linksFollowed = articleLinks.length;
+    diagnostics.timings.listingMs = since(stepStartedAt);
+
+    const fetchArticle = async (articleUrl: string) => {
+      const fetchStartedAt = Date.now();
+      let rendering = renderArticles;
+      const record = (entry: Omit<ArticleDiagnostic, 'url' | 'ms' | 'rendered'>) => {
+        articleRecords.set(articleUrl, { url: articleUrl, ...entry, ...(rendering ? { rendered: true } : {}), ms: since(fetchStartedAt) });
+      };
+      try {
+        console.log('Fetching article:', articleUrl);
+        const articleResponse = renderArticles ? await render(articleUrl) : await fetchPage(articleUrl, profile.headers, pageOptions);
+        const cached = articleResponse.cached ? { cached: true } : {};
+        if (articleResponse.status !== 200) {
+          emit({ type: 'failed', url: articleUrl, reason: `Status code: ${articleResponse.status}` });
+          record({ outcome: 'failed', status: articleResponse.status, reason: `Status code: ${articleResponse.status}`, ...cached });
+          return null;
+        }
+        emit({ type: 'fetched', url: articleUrl });
+        const extract = (html: string) =>
+          extractArticle(cheerio.load(html), articleUrl, profile.selectors, hostname, options.includeHtml, profileDateOptions(profile));
+        let extracted = extract(articleResponse.data);
+        if (!extracted.item && !renderArticles && renderMode === 'auto' && renderer) {
+          rendering = true;
+          const renderedArticle = await render(articleUrl);
+          if (renderedArticle.status === 200) extracted = extract(renderedArticle.data);
+        }
+        const item = extracted.item && applySitemapEntry(extracted.item, sitemapEntries.get(articleUrl));
+        if (!item) {
+          record({ outcome: 'discarded', status: articleResponse.status, reason: extracted.reason, ...cached });
+          return null;
+        }
+        const fields = { ...extracted.fields };
+        if (item.fieldSources?.date === 'sitemap') fields.date = { source: 'sitemap' };
+        if (item.fieldSources?.imageUrl === 'sitemap') fields.imageUrl = { source: 'sitemap' };
+        record({ outcome: 'extracted', status: articleResponse.status, fields, ...cached });
+        emit({ type: 'article', item });
+        return item;
+      } catch (error: any) {
+        console.error('Error fetching article:', error);
+        emit({ type: 'failed', url: articleUrl, reason: error.message });
+        record({ outcome: 'failed', status: error.response?.status, reason: error.message });
+        return null;
+      }
+    };
+
+    stepStartedAt = Date.now();
+    const { results, skipped } = await runPool(articleLinks, fetchArticle, {
+      concurrency,
+      perHostConcurrency,
+      timeoutMs: deadlineMs - (Date.now() - startedAt),
+      signal: options.signal
+    });
+    skippedLinks = skipped;
+    diagnostics.timings.articlesMs = since(stepStartedAt);
+    const news = results.filter((item): item is NewsItem => item !== null);
+    const unavailableHosts = hostCircuits.unavailable([hostname, ...articleLinks.map(link => new URL(link).hostname)]);
+    if (unavailableHosts.length > 0) {
+      console.log('Unavailable hosts:', unavailableHosts.map(({ host }) => host).join(', '));
+    }
+
+    console.log('Found', news.length, 'articles');
+    if (skipped.length > 0) {
+      console.log('Deadline reached, skipped', skipped.length, 'article links');
+    }
+
+    if (news.length === 0) {
+      throwIfCancelled(options.signal);
+      throw new ScrapeError('NO_ARTICLES', rendered || !options.renderPage
+        ? 'No news articles found. The website might use a different structure or dynamic loading.'
+        : 'No news articles found. The website might load its articles with JavaScript; try again with rendering turned on.');
+    }
+
+    return withStored({
+      news,
+      skipped,
+      profile: appliedProfile,
+      ...(rendered ? { rendered } : {}),
+      ...(unavailableHosts.length ? { unavailableHosts } : {}),
+      ...(sitemap.sitemaps.length ? { sitemaps: sitemap.sitemaps } : {}),
+      diagnostics: finishDiagnostics(),
+      ...(options.debug ? { debug: { rejectedLinks: listing.rejected } } : {})
+    });
+  } catch (error) {
+    const scrapeError = toScrapeError(error);
+    scrapeError.diagnostics = finishDiagnostics();
+    throw scrapeError;
+  }
+};
+
+// Run a scrape and write each progress event as one line of NDJSON.
+// Failures become a final error event because the response has already started;
+// once options.signal aborts nothing more is written.
+export const streamScrapeNews = async (url: string, options: ScrapeOptions, write: (line: string) => void) => {
+  const send = (event: ScrapeEvent) => {
+    if (!options.signal?.aborted) write(JSON.stringify(event) + '\n');
+  };
+  try {
+    const { news, skipped, stored, unavailableHosts, diagnostics, debug } = await scrapeNews(url, { ...options, onEvent: send });
+    send({
+      type: 'done',
+      total: news.length,
+      skipped,
+      ...(stored ? { stored } : {}),
+      ...(unavailableHosts ? { unavailableHosts } : {}),
+      diagnostics,
+      ...(debug ? { debug } : {})
+    });
+  } catch (error) {
+    const { status, body } = errorResponse(error);
+    send({ type: 'error', status, ...body });
+  }
+};
+
+export const scrapeArticle = async (url: string, options: Pick<ScrapeOptions, 'outboundSlot'> = {}): Promise<ArticleDetails> => {
+  const { hostname } = validateUrl(url);
+  const profile = getProfile(hostname);
+
+  let response;
+  try {
+    response = await fetchPage(url, profile.headers, { slot: options.outboundSlot });
+  } catch (error) {
+    throw toScrapeError(error);
+  }
+  if (response.status !== 200) {
+    throw new ScrapeError(response.status === 403 ? 'BLOCKED_BY_SITE' : 'UPSTREAM_STATUS', `Failed to fetch article. Status code: ${response.status}`);
+  }
+  const $ = cheerio.load(response.data);
+
+  // Try to extract main content, preferring structured data
+  const metadata = extractMetadata($);
+  const title = metadata.title?.value || $('h1').first().text().trim() || $('title').text().trim();
+  const structuredAuthors = splitAuthors(metadata.author?.value);
+  const authors = structuredAuthors.length ? structuredAuthors : authorsFromElements($, ['[itemprop="author"]', '.author', 'meta[name="author"]']);
+  const dateOptions = profileDateOptions(profile);
+  const date = (metadata.date && parseDate(metadata.date.value, dateOptions)) ||
+    dateFromElements($, ['[itemprop="datePublished"]', '.date', 'time[datetime]'], dateOptions);
+  const image = extractImage($, url, profile.selectors.image, metadata)?.image || null;
+  // Try to get the main article body
+  const mainContent = extractMainContent($, url);
+  const body = mainContent?.text || $('p').map((i, el) => $(el).text()).get().join('\n\n').trim();
+  const bodyHtml = mainContent?.html || '';
+
+  return { title, author: authors.join(', '), authors, date: date?.iso || null, imageUrl: image?.url || '', image, body, bodyHtml, url };
+};
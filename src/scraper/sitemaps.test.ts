@@ -0,0 +1,106 @@
+import { PageResponse } from './cache';
+import { loadSitemapEntries, parseSitemap, pickChildSitemaps } from './sitemaps';
+
+const newsSitemap = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"
+        xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"
+        xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+  <url>
+    <loc>https://news.example.com/news/typhoon-leaves-par</loc>
+    <lastmod>2024-07-01T10:00:00+08:00</lastmod>
+    <news:news>
+      <news:publication><news:name>Example News</news:name><news:language>en</news:language></news:publication>
+      <news:publication_date>2024-07-01T08:30:00+08:00</news:publication_date>
+      <news:title>Typhoon leaves PAR</news:title>
+    </news:news>
+    <image:image><image:loc>https://news.example.com/img/typhoon.jpg</image:loc></image:image>
+  </url>
+  <url><loc>https://news.example.com/about</loc></url>
+</urlset>`;
+
+const index = `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://news.example.com/sitemap-2024-06.xml</loc><lastmod>2024-06-30</lastmod></sitemap>
+  <sitemap><loc>https://news.example.com/sitemap-2024-07.xml</loc><lastmod>2024-07-01</lastmod></sitemap>
+  <sitemap><loc>https://news.example.com/news-sitemap.xml</loc></sitemap>
+  <sitemap><loc>https://news.example.com/sitemap-2024-05.xml.gz</loc><lastmod>2024-07-02</lastmod></sitemap>
+</sitemapindex>`;
+
+const xml = (data: string): PageResponse => ({ status: 200, headers: { 'content-type': 'application/xml' }, data });
+const notFound: PageResponse = { status: 404, headers: {}, data: 'Not found' };
+
+test('parses Google News entries with dates, titles and images', () => {
+  const { entries, sitemaps } = parseSitemap(newsSitemap, 'https://news.example.com/news-sitemap.xml');
+
+  expect(sitemaps).toEqual([]);
+  expect(entries).toEqual([
+    {
+      url: 'https://news.example.com/news/typhoon-leaves-par',
+      lastModified: '2024-07-01T02:00:00.000Z',
+      title: 'Typhoon leaves PAR',
+      publishedAt: '2024-07-01T00:30:00.000Z',
+      imageUrl: 'https://news.example.com/img/typhoon.jpg'
+    },
+    { url: 'https://news.example.com/about' }
+  ]);
+});
+
+test('drops entries and images that are not http or https', () => {
+  const hostile = `<urlset xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+    <url><loc>javascript:alert(document.domain)</loc></url>
+    <url>
+      <loc>https://news.example.com/news/harmless-story</loc>
+      <image:image><image:loc>javascript:alert(document.domain)</image:loc></image:image>
+    </url>
+    <url>
+      <loc>https://news.example.com/news/other-story</loc>
+      <image:image><image:loc>data:image/svg+xml,&lt;svg onload=alert(1)&gt;</image:loc></image:image>
+    </url>
+  </urlset>`;
+
+  expect(parseSitemap(hostile, 'https://news.example.com/sitemap.xml').entries).toEqual([
+    { url: 'https://news.example.com/news/harmless-story' },
+    { url: 'https://news.example.com/news/other-story' }
+  ]);
+});
+
+test('follows news and recent children of a sitemap index', () => {
+  const { sitemaps } = parseSitemap(index, 'https://news.example.com/sitemap.xml');
+
+  expect(pickChildSitemaps(sitemaps).map(sitemap => sitemap.url)).toEqual([
+    'https://news.example.com/news-sitemap.xml',
+    'https://news.example.com/sitemap-2024-07.xml',
+    'https://news.example.com/sitemap-2024-06.xml'
+  ]);
+});
+
+test('probes common paths until one is a sitemap, then reads its children', async () => {
+  const site: Record<string, PageResponse> = {
+    'https://news.example.com/sitemap_news.xml': xml(index),
+    'https://news.example.com/sitemap-2024-07.xml': xml(newsSitemap),
+    'https://news.example.com/sitemap-2024-06.xml': xml('<urlset></urlset>')
+  };
+  const requested: string[] = [];
+  const fetch = async (url: string) => {
+    requested.push(url);
+    return site[url] || notFound;
+  };
+
+  const { sitemaps, entries } = await loadSitemapEntries('https://news.example.com/news/', fetch, {
+    known: [],
+    probeCommonPaths: true,
+    deadline: Date.now() + 5000
+  });
+
+  // news-sitemap.xml was already tried (404) as a common path, so it is not fetched again
+  expect(requested).toEqual([
+    'https://news.example.com/news-sitemap.xml',
+    'https://news.example.com/sitemap_news.xml',
+    'https://news.example.com/sitemap-2024-07.xml',
+    'https://news.example.com/sitemap-2024-06.xml'
+  ]);
+  expect(sitemaps).toEqual(requested.slice(1));
+  expect(entries.map(entry => entry.url)).toEqual([
+    'https://news.example.com/news/typhoon-leaves-par',
+    'https://news.example.com/about'
+  ]);
+});
@@ -0,0 +1,139 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio } from 'cheerio';
+import { PageResponse } from './cache';
+import { parseDate } from './dates';
+
+export interface SitemapEntry {
+  url: string;
+  lastModified?: string;
+  // From <news:news>, present in Google News sitemaps
+  title?: string;
+  publishedAt?: string;
+  imageUrl?: string;
+}
+
+export interface ParsedSitemap {
+  // Child sitemaps listed by a sitemap index
+  sitemaps: { url: string; lastModified?: string }[];
+  entries: SitemapEntry[];
+}
+
+export interface SitemapLoadOptions {
+  // Sitemaps named by robots.txt or the site profile
+  known: string[];
+  // Probe the common locations when nothing is known
+  probeCommonPaths: boolean;
+  deadline: number;
+}
+
+// Tried in order when robots.txt names no sitemap
+export const commonSitemapPaths = ['/news-sitemap.xml', '/sitemap_news.xml', '/sitemap-news.xml', '/sitemap.xml', '/sitemap_index.xml'];
+
+// Sitemap documents read per scrape, indexes included
+const maxDocuments = 6;
+// Child sitemaps followed from one index
+const maxChildren = 3;
+
+const text = ($el: Cheerio<any>) => $el.first().text().trim();
+
+const toIsoDate = (value: string) => parseDate(value)?.iso;
+
+// Only web links, as in feeds: a javascript: or data: URL would end up in an article's image
+const absolute = (href: string, baseUrl: string) => {
+  if (!href) return '';
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : '';
+  } catch (e) {
+    return '';
+  }
+};
+
+const parseUrlEntry = ($url: Cheerio<any>, sitemapUrl: string): SitemapEntry | null => {
+  const url = absolute(text($url.children('loc')), sitemapUrl);
+  if (!url) return null;
+
+  const entry: SitemapEntry = { url };
+  const lastModified = toIsoDate(text($url.children('lastmod')));
+  if (lastModified) entry.lastModified = lastModified;
+
+  const $news = $url.children('news\\:news');
+  if ($news.length) {
+    const title = text($news.children('news\\:title'));
+    const publishedAt = toIsoDate(text($news.children('news\\:publication_date')));
+    if (title) entry.title = title;
+    if (publishedAt) entry.publishedAt = publishedAt;
+  }
+
+  const image = absolute(text($url.find('image\\:image image\\:loc')), sitemapUrl);
+  if (image) entry.imageUrl = image;
+  return entry;
+};
+
+// Parse a urlset (plain or Google News) or a sitemap index
+export const parseSitemap = (xml: string, sitemapUrl: string): ParsedSitemap => {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const sitemaps = $('sitemapindex > sitemap').toArray()
+    .map(el => ({ url: absolute(text($(el).children('loc')), sitemapUrl), lastModified: toIsoDate(text($(el).children('lastmod'))) }))
+    .filter(sitemap => sitemap.url);
+
+  const entries = $('urlset > url').toArray()
+    .map(el => parseUrlEntry($(el), sitemapUrl))
+    .filter((entry): entry is SitemapEntry => entry !== null);
+
+  return { sitemaps, entries };
+};
+
+// From an index, follow news sitemaps first, then the most recently changed
+export const pickChildSitemaps = (sitemaps: ParsedSitemap['sitemaps']) => [...sitemaps]
+  .filter(sitemap => !/\.gz$/i.test(new URL(sitemap.url).pathname))
+  .sort((a, b) => {
+    const isNews = (url: string) => Number(/news/i.test(new URL(url).pathname));
+    const news = isNews(b.url) - isNews(a.url);
+    return news || (b.lastModified || '').localeCompare(a.lastModified || '');
+  })
+  .slice(0, maxChildren);
+
+const looksLikeSitemap = (response: PageResponse) =>
+  response.status === 200 && typeof response.data === 'string' && /<(urlset|sitemapindex)[\s>]/.test(response.data);
+
+// Read the site's sitemaps, following indexes one level down, within a small
+// document budget. Unreachable or malformed sitemaps are skipped.
+export const loadSitemapEntries = async (
+  siteUrl: string,
+  fetch: (url: string) => Promise<PageResponse>,
+  options: SitemapLoadOptions
+): Promise<{ sitemaps: string[]; entries: SitemapEntry[] }> => {
+  const origin = new URL(siteUrl).origin;
+  const queue = [...options.known];
+  // Common paths are tried one at a time until one of them turns out to be a sitemap
+  const probes = options.known.length === 0 && options.probeCommonPaths ? commonSitemapPaths.map(path => origin + path) : [];
+  const read = new Set<string>();
+  const used: string[] = [];
+  const entries = new Map<string, SitemapEntry>();
+
+  while ((queue.length || probes.length) && read.size < maxDocuments && Date.now() < options.deadline) {
+    const sitemapUrl = (queue.shift() || probes.shift()) as string;
+    if (read.has(sitemapUrl)) continue;
+    read.add(sitemapUrl);
+
+    let response: PageResponse;
+    try {
+      console.log('Fetching sitemap:', sitemapUrl);
+      response = await fetch(sitemapUrl);
+    } catch (error: any) {
+      console.log('Could not fetch sitemap', sitemapUrl, error.message);
+      continue;
+    }
+    if (!looksLikeSitemap(response)) continue;
+
+    const parsed = parseSitemap(response.data, sitemapUrl);
+    used.push(sitemapUrl);
+    probes.length = 0;
+    parsed.entries.forEach(entry => entries.set(entry.url, { ...entries.get(entry.url), ...entry }));
+    queue.unshift(...pickChildSitemaps(parsed.sitemaps).map(sitemap => sitemap.url));
+  }
+
+  return { sitemaps: used, entries: Array.from(entries.values()) };
+};
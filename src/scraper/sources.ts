@@ -0,0 +1,47 @@
+export interface NewsSource {
+  name: string;
+  url: string;
+  description: string;
+  // How often the server's scheduler re-crawls this source
+  intervalMinutes: number;
+}
+
+// The quick-pick sites in the app, also the scheduler's default crawl list
+export const newsSources: NewsSource[] = [
+  {
+    name: 'ABS-CBN News',
+    url: 'https://news.abs-cbn.com/',
+    description: 'Philippine news and current events',
+    intervalMinutes: 30
+  },
+  {
+    name: 'GMA News',
+    url: 'https://www.gmanetwork.com/news/',
+    description: 'Latest Philippine news',
+    intervalMinutes: 30
+  },
+  {
+    name: 'Rappler',
+    url: 'https://www.rappler.com/',
+    description: 'Philippine news and analysis',
+    intervalMinutes: 30
+  },
+  {
+    name: 'Inquirer',
+    url: 'https://newsinfo.inquirer.net/',
+    description: 'Philippine daily news',
+    intervalMinutes: 30
+  },
+  {
+    name: 'Manila Bulletin',
+    url: 'https://mb.com.ph/',
+    description: 'Philippine news and information',
+    intervalMinutes: 60
+  },
+  {
+    name: 'CNN Philippines',
+    url: 'https://www.cnnphilippines.com/',
+    description: 'Latest news and updates',
+    intervalMinutes: 60
+  }
+];
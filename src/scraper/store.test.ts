@@ -0,0 +1,157 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { canonicalKey, contentHash, openArticleStore } from './store';
+import { NewsItem } from './types';
+
+const item = (overrides: Partial<NewsItem> = {}): NewsItem => ({
+  title: 'Typhoon makes landfall',
+  author: 'Juan Dela Cruz',
+  date: '2024-07-01T00:00:00.000Z',
+  source: 'news.example.com',
+  url: 'https://news.example.com/news/typhoon',
+  imageUrl: null,
+  content: 'The storm hit the coast.',
+  ...overrides
+});
+
+test('normalises URLs into canonical keys', () => {
+  expect(canonicalKey('https://News.Example.com:443/news/typhoon/?utm_source=fb&id=2#top'))
+    .toBe('https://news.example.com/news/typhoon?id=2');
+  expect(canonicalKey('https://news.example.com/')).toBe('https://news.example.com/');
+});
+
+test('updates existing rows instead of duplicating them', () => {
+  const store = openArticleStore(':memory:');
+
+  expect(store.save([item()])).toEqual({ added: 1, updated: 0, unchanged: 0 });
+  expect(store.save([item({ url: 'https://news.example.com/news/typhoon?utm_medium=social' })]))
+    .toEqual({ added: 0, updated: 0, unchanged: 1 });
+  expect(store.save([item({ content: 'The storm hit the coast overnight.' })]))
+    .toEqual({ added: 0, updated: 1, unchanged: 0 });
+
+  const { articles, total } = store.list();
+  expect(total).toBe(1);
+  expect(articles[0]).toMatchObject({
+    canonicalUrl: 'https://news.example.com/news/typhoon',
+    content: 'The storm hit the coast overnight.'
+  });
+  expect(articles[0].firstSeen <= articles[0].lastSeen).toBe(true);
+  store.close();
+});
+
+test('keys articles by the canonical URL the page names', () => {
+  const store = openArticleStore(':memory:');
+  store.save([
+    item({ url: 'https://news.example.com/amp/typhoon', canonicalUrl: 'https://news.example.com/news/typhoon' }),
+    item()
+  ]);
+
+  expect(store.list().total).toBe(1);
+  store.close();
+});
+
+test('ignores a canonical URL that points off the site or at the home page', () => {
+  const store = openArticleStore(':memory:');
+  store.save([
+    item({ url: 'https://news.example.com/news/typhoon', canonicalUrl: 'https://news.example.com/' }),
+    item({ url: 'https://news.example.com/news/flood', title: 'Floods close roads', canonicalUrl: 'https://news.example.com/' }),
+    item({ url: 'https://news.example.com/news/budget', title: 'Budget passes', canonicalUrl: 'https://aggregator.example.net/story' }),
+    item({ url: 'https://news.example.com/news/rates', title: 'Rates rise', canonicalUrl: 'https://aggregator.example.net/story' })
+  ]);
+
+  expect(store.list().articles.map(article => article.canonicalUrl).sort()).toEqual([
+    'https://news.example.com/news/budget',
+    'https://news.example.com/news/flood',
+    'https://news.example.com/news/rates',
+    'https://news.example.com/news/typhoon'
+  ]);
+  store.close();
+});
+
+test('filters history by source and search text', () => {
+  const store = openArticleStore(':memory:');
+  store.save([
+    item(),
+    item({ title: 'Senate passes budget', url: 'https://other.example.org/news/budget', source: 'other.example.org' })
+  ]);
+
+  expect(store.list({ source: 'other.example.org' }).articles.map(a => a.title)).toEqual(['Senate passes budget']);
+  expect(store.list({ search: 'typhoon' }).total).toBe(1);
+  expect(store.list({ limit: 1 }).articles).toHaveLength(1);
+  store.close();
+});
+
+test('keeps a known date when a later scrape finds none', () => {
+  const store = openArticleStore(':memory:');
+  store.save([item({ dateConfidence: 'exact' })]);
+  store.save([item({ date: null, dateConfidence: 'none', content: 'Updated story.' })]);
+
+  expect(store.list().articles[0]).toMatchObject({ date: '2024-07-01T00:00:00.000Z', dateConfidence: 'exact' });
+  store.close();
+});
+
+test('replaces a rougher date but never one relative date with another', () => {
+  const store = openArticleStore(':memory:');
+  store.save([item({ date: '2024-07-01T09:00:00.000Z', dateConfidence: 'relative' })]);
+  store.save([item({ date: '2024-07-01T11:00:00.000Z', dateConfidence: 'relative' })]);
+  expect(store.list().articles[0].date).toBe('2024-07-01T09:00:00.000Z');
+
+  store.save([item({ date: '2024-07-01T08:12:00.000Z', dateConfidence: 'exact' })]);
+  store.save([item({ date: '2024-06-30T16:00:00.000Z', dateConfidence: 'day', content: 'Updated story.' })]);
+  expect(store.list().articles[0]).toMatchObject({ date: '2024-07-01T08:12:00.000Z', dateConfidence: 'exact' });
+  store.close();
+});
+
+test('fills in dates, authors and images on rows saved before those columns existed', () => {
+  const fresh = item({
+    authors: ['Juan Dela Cruz'],
+    dateConfidence: 'exact',
+    imageUrl: 'https://news.example.com/img/typhoon.jpg',
+    image: { url: 'https://news.example.com/img/typhoon.jpg', width: 1200 }
+  });
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'articles-'));
+  const file = path.join(dir, 'articles.db');
+  // A file written by the first version of the store, which saved the scrape time as the date
+  const old = new Database(file);
+  old.exec(`CREATE TABLE articles (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    canonical_url TEXT NOT NULL UNIQUE,
+    url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    date TEXT NOT NULL,
+    source TEXT NOT NULL,
+    image_url TEXT,
+    content TEXT,
+    content_html TEXT,
+    field_sources TEXT,
+    content_hash TEXT NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );`);
+  const seen = '2024-07-05T10:00:00.000Z';
+  old.prepare(`INSERT INTO articles (canonical_url, url, title, author, date, source, content, content_hash, first_seen,
+    last_seen, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+    .run(fresh.url, fresh.url, fresh.title, fresh.author, seen, fresh.source, fresh.content, contentHash(fresh), seen, seen, seen);
+  old.pragma('user_version = 1');
+  old.close();
+
+  try {
+    const store = openArticleStore(file);
+    // Same title, author and content, so the story itself is unchanged
+    expect(store.save([fresh])).toEqual({ added: 0, updated: 0, unchanged: 1 });
+    expect(store.list().articles[0]).toMatchObject({
+      date: '2024-07-01T00:00:00.000Z',
+      dateConfidence: 'exact',
+      authors: ['Juan Dela Cruz'],
+      imageUrl: 'https://news.example.com/img/typhoon.jpg',
+      image: { url: 'https://news.example.com/img/typhoon.jpg', width: 1200 }
+    });
+    store.close();
+  } finally {
+    fs.rmSync(dir, { recursive: true });
+  }
+});
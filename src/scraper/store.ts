@@ -0,0 +1,277 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { getDomain } from 'tldts';
+import { ArticleHistory, DateConfidence, NewsItem, SaveSummary, StoredArticle } from './types';
+
+export const articleStorePath = process.env.ARTICLE_DB || path.resolve(process.cwd(), 'data', 'articles.db');
+
+export interface ArticleQuery {
+  limit?: number;
+  offset?: number;
+  source?: string;
+  // Matched against titles and authors
+  search?: string;
+}
+
+export interface ArticleStore {
+  save: (news: NewsItem[]) => SaveSummary;
+  list: (query?: ArticleQuery) => ArticleHistory;
+  close: () => void;
+}
+
+// Each entry moves the schema one version forward; PRAGMA user_version records how far a file got
+const migrations = [
+  `CREATE TABLE articles (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    canonical_url TEXT NOT NULL UNIQUE,
+    url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    date TEXT NOT NULL,
+    source TEXT NOT NULL,
+    image_url TEXT,
+    content TEXT,
+    content_html TEXT,
+    field_sources TEXT,
+    content_hash TEXT NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX articles_last_seen ON articles (last_seen);
+  CREATE INDEX articles_source ON articles (source);`,
+  // Dates may be unknown; SQLite cannot drop NOT NULL in place, so the table is rebuilt
+  `ALTER TABLE articles RENAME TO articles_v1;
+  CREATE TABLE articles (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    canonical_url TEXT NOT NULL UNIQUE,
+    url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    date TEXT,
+    date_confidence TEXT,
+    source TEXT NOT NULL,
+    image_url TEXT,
+    content TEXT,
+    content_html TEXT,
+    field_sources TEXT,
+    content_hash TEXT NOT NULL,
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  INSERT INTO articles (id, canonical_url, url, title, author, date, source, image_url, content, content_html,
+    field_sources, content_hash, first_seen, last_seen, updated_at)
+  SELECT id, canonical_url, url, title, author, date, source, image_url, content, content_html,
+    field_sources, content_hash, first_seen, last_seen, updated_at FROM articles_v1;
+  DROP TABLE articles_v1;
+  CREATE INDEX articles_last_seen ON articles (last_seen);
+  CREATE INDEX articles_source ON articles (source);`,
+  // JSON array of individual bylines
+  `ALTER TABLE articles ADD COLUMN authors TEXT;`,
+  // JSON lead image with its size and alt text
+  `ALTER TABLE articles ADD COLUMN image TEXT;`
+];
+
+const maxPageSize = 200;
+
+// How far a date can be trusted; a relative date is only as good as the run that read it
+const confidenceRank: Record<DateConfidence, number> = { none: 0, relative: 1, day: 2, local: 3, exact: 4 };
+
+// Whether a freshly read date should replace the stored one. Rows saved before
+// dates were graded have no confidence and always give way; two relative dates
+// never replace each other, since they drift between runs.
+const isBetterDate = (
+  stored: { date: string | null; date_confidence: string | null },
+  date: string | null,
+  confidence: DateConfidence | null
+) => {
+  if (!date) return false;
+  if (!stored.date || !stored.date_confidence) return true;
+  if (confidence === 'relative' && stored.date_confidence === 'relative') return false;
+  return confidenceRank[confidence || 'none'] >= (confidenceRank[stored.date_confidence as DateConfidence] ?? 0);
+};
+
+// Query parameters that only track where a reader came from
+const trackingParams = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ocid|cmpid)$/i;
+
+// Same story, same key: lower-case host, no fragment, default port, tracking
+// parameters or trailing slash
+export const canonicalKey = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    Array.from(parsed.searchParams.keys())
+      .filter(name => trackingParams.test(name))
+      .forEach(name => parsed.searchParams.delete(name));
+    parsed.searchParams.sort();
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    }
+    return parsed.href;
+  } catch (e) {
+    return url;
+  }
+};
+
+const siteOf = (hostname: string) => getDomain(hostname, { allowPrivateDomains: true }) || hostname;
+
+// The page's own canonical URL, unless it points off the site or at the home page,
+// which some sites do for every article; such a key would merge unrelated stories
+const storeKey = (item: NewsItem) => {
+  if (item.canonicalUrl) {
+    try {
+      const canonical = new URL(item.canonicalUrl);
+      const page = new URL(item.url);
+      if ((canonical.protocol === 'http:' || canonical.protocol === 'https:') &&
+        siteOf(canonical.hostname) === siteOf(page.hostname) &&
+        (canonical.pathname !== '/' || canonical.search || page.pathname === '/')) {
+        return canonicalKey(canonical.href);
+      }
+    } catch (e) {
+      console.log('Invalid canonical URL:', item.canonicalUrl);
+    }
+  }
+  return canonicalKey(item.url);
+};
+
+// Dates are left out: relative dates ("3 hours ago") drift between runs
+export const contentHash = (item: NewsItem) => crypto
+  .createHash('sha256')
+  .update(JSON.stringify([item.title, item.author, item.content || '']))
+  .digest('hex');
+
+const toStoredArticle = (row: any): StoredArticle => ({
+  id: row.id,
+  title: row.title,
+  author: row.author,
+  ...(row.authors ? { authors: JSON.parse(row.authors) } : {}),
+  date: row.date,
+  ...(row.date_confidence ? { dateConfidence: row.date_confidence } : {}),
+  source: row.source,
+  url: row.url,
+  canonicalUrl: row.canonical_url,
+  imageUrl: row.image_url,
+  ...(row.image ? { image: JSON.parse(row.image) } : {}),
+  content: row.content,
+  contentHtml: row.content_html,
+  ...(row.field_sources ? { fieldSources: JSON.parse(row.field_sources) } : {}),
+  contentHash: row.content_hash,
+  firstSeen: row.first_seen,
+  lastSeen: row.last_seen,
+  updatedAt: row.updated_at
+});
+
+const migrate = (db: Database.Database) => {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  migrations.slice(version).forEach((sql, i) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + i + 1}`);
+    })();
+  });
+};
+
+// Opens (creating if needed) the SQLite file that keeps every scraped article
+export const openArticleStore = (file = articleStorePath): ArticleStore => {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+
+  const findByKey = db.prepare('SELECT id, content_hash, date, date_confidence FROM articles WHERE canonical_url = ?');
+  const insert = db.prepare(`
+    INSERT INTO articles (canonical_url, url, title, author, authors, date, date_confidence, source, image_url,
+      image, content, content_html, field_sources, content_hash, first_seen, last_seen, updated_at)
+    VALUES (@canonicalUrl, @url, @title, @author, @authors, @date, @dateConfidence, @source, @imageUrl, @image, @content, @contentHtml,
+      @fieldSources, @contentHash, @now, @now, @now)`);
+  // The story is the same, but a better date, or authors and images from columns
+  // added since the row was saved, are still filled in
+  const touch = db.prepare(`
+    UPDATE articles SET last_seen = @now, url = @url,
+      date = CASE WHEN @betterDate THEN @date ELSE date END,
+      date_confidence = CASE WHEN @betterDate THEN @dateConfidence ELSE date_confidence END,
+      field_sources = CASE WHEN @betterDate THEN COALESCE(@fieldSources, field_sources) ELSE field_sources END,
+      authors = COALESCE(@authors, authors), image_url = COALESCE(@imageUrl, image_url), image = COALESCE(@image, image)
+    WHERE id = @id`);
+  // Markup is only sent when the client asked for it, so keep what we already have; the
+  // same goes for a date the page no longer shows or reads less precisely
+  const update = db.prepare(`
+    UPDATE articles SET url = @url, title = @title, author = @author, authors = @authors,
+      date = CASE WHEN @betterDate THEN @date ELSE date END,
+      date_confidence = CASE WHEN @betterDate THEN @dateConfidence ELSE date_confidence END, source = @source,
+      image_url = @imageUrl, image = @image, content = @content, content_html = COALESCE(@contentHtml, content_html),
+      field_sources = @fieldSources, content_hash = @contentHash, last_seen = @now, updated_at = @now
+    WHERE id = @id`);
+
+  const save = db.transaction((news: NewsItem[]) => {
+    const summary: SaveSummary = { added: 0, updated: 0, unchanged: 0 };
+    const now = new Date().toISOString();
+
+    news.forEach(item => {
+      const row = {
+        canonicalUrl: storeKey(item),
+        url: item.url,
+        title: item.title,
+        author: item.author,
+        authors: item.authors ? JSON.stringify(item.authors) : null,
+        date: item.date,
+        dateConfidence: item.date ? item.dateConfidence || null : null,
+        source: item.source,
+        imageUrl: item.imageUrl,
+        image: item.image ? JSON.stringify(item.image) : null,
+        content: item.content ?? null,
+        contentHtml: item.contentHtml ?? null,
+        fieldSources: item.fieldSources ? JSON.stringify(item.fieldSources) : null,
+        contentHash: contentHash(item),
+        now
+      };
+      const existing = findByKey.get(row.canonicalUrl) as
+        { id: number; content_hash: string; date: string | null; date_confidence: string | null } | undefined;
+
+      if (!existing) {
+        insert.run(row);
+        summary.added++;
+        return;
+      }
+      const changes = { ...row, id: existing.id, betterDate: isBetterDate(existing, row.date, row.dateConfidence) ? 1 : 0 };
+      if (existing.content_hash === row.contentHash) {
+        touch.run(changes);
+        summary.unchanged++;
+      } else {
+        update.run(changes);
+        summary.updated++;
+      }
+    });
+    return summary;
+  });
+
+  const list = ({ limit = 50, offset = 0, source, search }: ArticleQuery = {}): ArticleHistory => {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+    if (source) {
+      conditions.push('source = @source');
+      params.source = source;
+    }
+    if (search) {
+      conditions.push('(title LIKE @search OR author LIKE @search)');
+      params.search = `%${search}%`;
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM articles ${where}`).get(params) as { total: number };
+    const rows = db.prepare(`SELECT * FROM articles ${where} ORDER BY last_seen DESC, date DESC LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: Math.min(Math.max(1, limit), maxPageSize), offset: Math.max(0, offset) });
+    return { articles: rows.map(toStoredArticle), total };
+  };
+
+  return {
+    save: news => save(news),
+    list,
+    close: () => db.close()
+  };
+};
@@ -0,0 +1,73 @@
+import sharp from 'sharp';
+import { createThumbnailer, thumbnailWidth } from './thumbnails';
+
+const photo = () => sharp({ create: { width: 1600, height: 900, channels: 3, background: '#3366aa' } }).jpeg().toBuffer();
+
+test('rounds requested widths up to a produced size', () => {
+  expect(thumbnailWidth(undefined)).toBe(480);
+  expect(thumbnailWidth('300')).toBe(320);
+  expect(thumbnailWidth('480')).toBe(480);
+  expect(thumbnailWidth('5000')).toBe(1200);
+  expect(() => thumbnailWidth('wide')).toThrow(expect.objectContaining({ status: 400 }));
+  expect(() => thumbnailWidth('-1')).toThrow(expect.objectContaining({ status: 400 }));
+});
+
+test('resizes and re-encodes for the client', async () => {
+  const original = await photo();
+  const thumbnailer = createThumbnailer({ fetchImage: async () => original });
+
+  const webp = await thumbnailer.get('https://news.example.com/a.jpg', 480, 'image/avif,image/webp,*/*');
+  expect(webp.contentType).toBe('image/webp');
+  expect(await sharp(webp.body).metadata()).toMatchObject({ format: 'webp', width: 480, height: 270 });
+  expect(webp.etag).toMatch(/^"[0-9a-f]{40}"$/);
+
+  const jpeg = await thumbnailer.get('https://news.example.com/a.jpg', 320, 'image/*');
+  expect(jpeg.contentType).toBe('image/jpeg');
+  expect((await sharp(jpeg.body).metadata()).width).toBe(320);
+});
+
+test('never enlarges small images', async () => {
+  const small = await sharp({ create: { width: 200, height: 100, channels: 3, background: '#000' } }).png().toBuffer();
+  const thumbnailer = createThumbnailer({ fetchImage: async () => small });
+
+  const thumbnail = await thumbnailer.get('https://news.example.com/small.png', 800);
+  expect((await sharp(thumbnail.body).metadata()).width).toBe(200);
+});
+
+test('downloads each image once for repeat and concurrent requests', async () => {
+  const original = await photo();
+  const fetchImage = jest.fn(async () => original);
+  const thumbnailer = createThumbnailer({ fetchImage });
+
+  const [first, second] = await Promise.all([
+    thumbnailer.get('https://news.example.com/a.jpg', 480),
+    thumbnailer.get('https://news.example.com/a.jpg', 480)
+  ]);
+  const third = await thumbnailer.get('https://news.example.com/a.jpg', 480);
+
+  expect(fetchImage).toHaveBeenCalledTimes(1);
+  expect(second).toBe(first);
+  expect(third).toBe(first);
+});
+
+test('evicts the least recently used thumbnails past the byte budget', async () => {
+  const original = await photo();
+  const fetchImage = jest.fn(async () => original);
+  const thumbnailer = createThumbnailer({ fetchImage, maxCacheBytes: 1 });
+
+  await thumbnailer.get('https://news.example.com/a.jpg', 160);
+  await thumbnailer.get('https://news.example.com/a.jpg', 160);
+
+  expect(fetchImage).toHaveBeenCalledTimes(2);
+});
+
+test('refuses files that are not raster images', async () => {
+  const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"></svg>');
+  const text = Buffer.from('<html>not an image</html>');
+
+  await expect(createThumbnailer({ fetchImage: async () => svg }).get('https://news.example.com/a.svg', 480))
+    .rejects.toMatchObject({ status: 415 });
+  await expect(createThumbnailer({ fetchImage: async () => text }).get('https://news.example.com/a.jpg', 480))
+    .rejects.toMatchObject({ status: 415 });
+  await expect(createThumbnailer().get('', 480)).rejects.toMatchObject({ status: 400 });
+});
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { ScrapeError } from './errors';
+import { publicGet, publicUrl } from './network';
+import { userAgent } from './scrape';
+import { OutboundSlot } from './types';
+
+export interface Thumbnail {
+  contentType: string;
+  body: Buffer;
+  etag: string;
+}
+
+export interface ThumbnailOptions {
+  // Memory kept for resized images, in bytes
+  maxCacheBytes?: number;
+  fetchImage?: (url: string) => Promise<Buffer>;
+  // Server-wide outbound budget the downloads wait for
+  outboundSlot?: OutboundSlot;
+}
+
+// Widths the proxy produces; requests are rounded up to one of these so the cache stays small
+export const thumbnailWidths = [160, 320, 480, 640, 800, 1200];
+export const maxImageBytes = 10 * 1024 * 1024;
+// Decompression bombs are refused before they are decoded
+const maxInputPixels = 40 * 1000 * 1000;
+const inputFormats = new Set(['jpeg', 'png', 'webp', 'gif', 'avif', 'tiff']);
+
+export const thumbnailWidth = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return 480;
+  const width = Number(value);
+  if (!Number.isInteger(width) || width < 1) {
+    throw new ScrapeError('INVALID_OPTION', 'w must be a positive whole number');
+  }
+  return thumbnailWidths.find(size => size >= width) ?? thumbnailWidths[thumbnailWidths.length - 1];
+};
+
+// Download an image through publicGet: public addresses only, at most maxImageBytes
+export const downloadImage = async (url: string): Promise<Buffer> => {
+  const target = publicUrl(url);
+  const response = await publicGet<ArrayBuffer>(target.href, {
+    responseType: 'arraybuffer',
+    maxBytes: maxImageBytes,
+    contentTypes: ['image/'],
+    headers: {
+      'User-Agent': userAgent,
+      'Accept': 'image/avif,image/webp,image/png,image/jpeg,image/*;q=0.8',
+      // Hotlink protection usually only wants a Referer from the site itself
+      'Referer': `${target.origin}/`
+    }
+  });
+  return Buffer.from(response.data);
+};
+
+// Fetches news images, scales them to a card-sized width and re-encodes them as
+// WebP (or JPEG for clients that cannot show WebP). Results are kept in a
+// memory LRU bounded by size, and concurrent requests for one image share a download.
+export const createThumbnailer = (options: ThumbnailOptions = {}) => {
+  const maxCacheBytes = options.maxCacheBytes ?? 64 * 1024 * 1024;
+  const fetchImage = options.fetchImage || downloadImage;
+  const cache = new Map<string, Thumbnail>();
+  const pending = new Map<string, Promise<Thumbnail>>();
+  let cachedBytes = 0;
+
+  const remember = (key: string, thumbnail: Thumbnail) => {
+    cache.set(key, thumbnail);
+    cachedBytes += thumbnail.body.length;
+    for (const [oldest, entry] of Array.from(cache.entries())) {
+      if (cachedBytes <= maxCacheBytes) break;
+      cache.delete(oldest);
+      cachedBytes -= entry.body.length;
+    }
+  };
+
+  const render = async (url: string, width: number, webp: boolean): Promise<Thumbnail> => {
+    const release = options.outboundSlot ? await options.outboundSlot() : undefined;
+    let original: Buffer;
+    try {
+      original = await fetchImage(url);
+    } finally {
+      release?.();
+    }
+    let body: Buffer;
+    try {
+      const image = sharp(original, { limitInputPixels: maxInputPixels });
+      const { format } = await image.metadata();
+      if (!format || !inputFormats.has(format)) {
+        throw new ScrapeError('UNSUPPORTED_CONTENT', `Images in ${format || 'this'} format are not supported.`);
+      }
+      const resized = image.rotate().resize({ width, withoutEnlargement: true });
+      body = webp ? await resized.webp({ quality: 75 }).toBuffer() : await resized.jpeg({ quality: 78, mozjpeg: true }).toBuffer();
+    } catch (error) {
+      if (error instanceof ScrapeError) throw error;
+      throw new ScrapeError('UNSUPPORTED_CONTENT', 'The image could not be read.');
+    }
+    return {
+      contentType: webp ? 'image/webp' : 'image/jpeg',
+      body,
+      etag: `"${crypto.createHash('sha1').update(body).digest('hex')}"`
+    };
+  };
+
+  // accept is the client's Accept header
+  const get = async (url: string, width: number, accept = ''): Promise<Thumbnail> => {
+    if (!url) throw new ScrapeError('INVALID_URL', 'url is required');
+    const webp = /image\/webp/.test(accept);
+    const key = `${webp ? 'webp' : 'jpeg'}:${width}:${url}`;
+
+    const cached = cache.get(key);
+    if (cached) {
+      cache.delete(key);
+      cache.set(key, cached);
+      return cached;
+    }
+
+    let job = pending.get(key);
+    if (!job) {
+      job = render(url, width, webp).then(thumbnail => {
+        remember(key, thumbnail);
+        return thumbnail;
+      });
+      job.then(() => pending.delete(key), () => pending.delete(key));
+      pending.set(key, job);
+    }
+    return job;
+  };
+
+  return { get };
+};
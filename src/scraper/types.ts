@@ -0,0 +1,327 @@
+// Where an extracted field was read from
+export type FieldSource = 'json-ld' | 'opengraph' | 'twitter' | 'selector' | 'readability' | 'sitemap';
+
+export type ArticleField = 'title' | 'author' | 'date' | 'imageUrl' | 'content';
+
+// How far a normalised date can be trusted: 'exact' names its zone, 'local' has a time
+// read in the site's zone, 'day' has no time, 'relative' came from text like "3 hours ago"
+export type DateConfidence = 'exact' | 'local' | 'day' | 'relative' | 'none';
+
+// The chosen lead image; width and height are the file's when known, else as declared
+export interface ArticleImage {
+  url: string;
+  width?: number;
+  height?: number;
+  alt?: string;
+}
+
+export interface NewsItem {
+  title: string;
+  // Display form of authors, or 'Unknown'
+  author: string;
+  // Individual bylines, agencies dropped when a person is named
+  authors?: string[];
+  // ISO 8601 in UTC; null when the page gives no readable date
+  date: string | null;
+  dateConfidence?: DateConfidence;
+  source: string;
+  url: string;
+  // The page's own canonical address, when it names one
+  canonicalUrl?: string;
+  imageUrl: string | null;
+  image?: ArticleImage | null;
+  // Plain text, paragraphs separated by blank lines
+  content?: string | null;
+  // Sanitized article markup, only when requested with includeHtml
+  contentHtml?: string | null;
+  fieldSources?: Partial<Record<ArticleField, FieldSource>>;
+}
+
+export interface ArticleDetails {
+  title: string;
+  author: string;
+  authors: string[];
+  date: string | null;
+  imageUrl: string;
+  image: ArticleImage | null;
+  body: string;
+  bodyHtml: string;
+  url: string;
+}
+
+export interface SiteSelectors {
+  article: string[];
+  title: string[];
+  author: string[];
+  date: string[];
+  image: string[];
+}
+
+// How a listing continues past its first page (see profiles/schema.json)
+export interface PaginationRules {
+  nextSelector?: string;
+  // e.g. "/news/page/{page}/"
+  pageUrlTemplate?: string;
+  pageParam?: string;
+  startPage?: number;
+  loadMore?: {
+    url: string;
+    itemsPath?: string;
+    urlField?: string;
+  };
+  maxPages?: number;
+}
+
+// When to render pages in a headless browser: 'auto' only when the static HTML
+// yields no article links (or an article yields nothing)
+export type RenderMode = 'never' | 'auto' | 'always';
+
+// A page as a headless browser left it after running its scripts
+export interface RenderedPage {
+  status: number;
+  html: string;
+}
+
+export type PageRenderer = (
+  url: string,
+  options: { userAgent: string; headers: Record<string, string>; timeoutMs: number }
+) => Promise<RenderedPage>;
+
+// Waits for a free outbound request slot; the returned function gives it back
+export type OutboundSlot = () => Promise<() => void>;
+
+// One file in the profiles directory, checked against profiles/schema.json
+export interface SiteProfile {
+  version: 1;
+  name: string;
+  hosts: string[];
+  selectors: SiteSelectors;
+  linkPatterns?: {
+    include?: string[];
+    exclude?: string[];
+  };
+  dateFormats?: string[];
+  // IANA zone for dates printed without one; defaults to Asia/Manila
+  timeZone?: string;
+  pagination?: PaginationRules;
+  headers?: Record<string, string>;
+  // Sitemaps to read instead of those named in robots.txt; [] reads none
+  sitemaps?: string[];
+  render?: RenderMode;
+}
+
+export interface ScrapeOptions {
+  // Stop after this many article links; undefined means follow every link found
+  maxArticles?: number;
+  // Listing pages to follow, the submitted one included; defaults to the profile's maxPages, then 1
+  maxPages?: number;
+  // Article pages fetched at once, across all hosts and per host
+  concurrency?: number;
+  perHostConcurrency?: number;
+  // Overall time budget for the request; links not fetched by then are skipped
+  deadlineMs?: number;
+  // Also return the sanitized article markup for each item
+  includeHtml?: boolean;
+  // Called as links are discovered and article pages are fetched
+  onEvent?: (event: ScrapeEvent) => void;
+  // Report rejected listing links, with reasons, in the result's debug field
+  debug?: boolean;
+  // Persists the scraped articles before the result is returned
+  saveArticles?: (news: NewsItem[]) => SaveSummary;
+  // Overrides the profile's render mode; needs renderPage
+  render?: RenderMode;
+  // Headless browser supplied by the server; without one only static HTML is read
+  renderPage?: PageRenderer;
+  // Server-wide limit on page downloads and renders in flight, shared with other scrapes
+  outboundSlot?: OutboundSlot;
+  // Aborted when the client goes away: requests in flight are cancelled and no new ones start
+  signal?: AbortSignal;
+}
+
+// Progress events, also sent line by line over the streaming endpoint
+export type ScrapeEvent =
+  | ({ type: 'profile' } & AppliedProfile)
+  | { type: 'feed'; url: string; total: number }
+  | { type: 'sitemap'; urls: string[]; total: number }
+  | { type: 'page'; url: string; page: number }
+  | { type: 'render'; url: string }
+  | { type: 'links'; total: number }
+  | { type: 'article'; item: NewsItem }
+  | { type: 'fetched'; url: string }
+  | { type: 'failed'; url: string; reason: string }
+  | {
+    type: 'done';
+    total: number;
+    skipped: string[];
+    stored?: SaveSummary;
+    unavailableHosts?: UnavailableHost[];
+    diagnostics?: ScrapeDiagnostics;
+    debug?: ScrapeResult['debug'];
+  }
+  | ({ type: 'error'; status: number } & ApiErrorBody);
+
+// Stable reasons for a failed request, shared by the server and the app. The
+// HTTP status for each is fixed in errors.ts; the message text may change.
+export type ErrorCode =
+  // The request itself
+  | 'INVALID_URL'
+  | 'INVALID_OPTION'
+  | 'INVALID_BODY'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'JOB_RUNNING'
+  | 'RATE_LIMITED'
+  | 'CANCELLED'
+  // Our own refusals
+  | 'BLOCKED_ADDRESS'
+  | 'ROBOTS_DISALLOWED'
+  | 'RENDER_UNAVAILABLE'
+  // The website
+  | 'BLOCKED_BY_SITE'
+  | 'UPSTREAM_STATUS'
+  | 'NO_RESPONSE'
+  | 'TIMEOUT'
+  | 'RESPONSE_TOO_LARGE'
+  | 'UNSUPPORTED_CONTENT'
+  | 'RENDER_FAILED'
+  | 'HOST_UNAVAILABLE'
+  | 'NO_ARTICLES'
+  | 'INTERNAL_ERROR';
+
+// Body of every error response from the Express API and the Netlify functions
+export interface ApiErrorBody {
+  error: string;
+  code: ErrorCode;
+  // Only for failed scrapes
+  diagnostics?: ScrapeDiagnostics;
+}
+
+// The site profile a scrape used, reported back to the client
+export interface AppliedProfile {
+  name: string;
+  // Profile host that matched the URL; null when the default profile applied
+  matchedHost: string | null;
+}
+
+export interface ScrapeResult {
+  news: NewsItem[];
+  profile: AppliedProfile;
+  // Article links left unfetched when the deadline passed
+  skipped: string[];
+  // Set when the articles came from an RSS or Atom feed instead of the HTML
+  feedUrl?: string;
+  // Sitemaps that contributed links and dates
+  sitemaps?: string[];
+  // Pages loaded through the headless browser
+  rendered?: number;
+  // Set when the server keeps an article store
+  stored?: SaveSummary;
+  // Hosts skipped by the circuit breaker after repeated failures
+  unavailableHosts?: UnavailableHost[];
+  diagnostics?: ScrapeDiagnostics;
+  // Only when the request asked for debug output
+  debug?: { rejectedLinks: RejectedLink[] };
+}
+
+// A field's source, with the CSS selector when a site selector matched
+export interface FieldMatch {
+  source: FieldSource;
+  selector?: string;
+}
+
+// What happened to one article link: 'discarded' pages loaded but had no article in them
+export interface ArticleDiagnostic {
+  url: string;
+  outcome: 'extracted' | 'discarded' | 'failed' | 'skipped';
+  status?: number;
+  reason?: string;
+  fields?: Partial<Record<ArticleField, FieldMatch>>;
+  // Answered from the response cache
+  cached?: boolean;
+  rendered?: boolean;
+  ms?: number;
+}
+
+// How a scrape went, step by step; sent with results and with a failed scrape's error
+export interface ScrapeDiagnostics {
+  // Where the articles came from: the page's links or a feed
+  via: 'links' | 'feed';
+  feedUrl?: string;
+  // Status of the submitted page
+  pageStatus?: number;
+  listingPages: number;
+  sitemapEntries: number;
+  linksDiscovered: number;
+  linksRejected: number;
+  // Article links fetched, after maxArticles
+  linksFollowed: number;
+  articlesExtracted: number;
+  // Article responses by HTTP status; requests that got no response count as "error"
+  statuses: Record<string, number>;
+  articles: ArticleDiagnostic[];
+  timings: {
+    totalMs: number;
+    pageMs?: number;
+    feedMs?: number;
+    sitemapsMs?: number;
+    listingMs?: number;
+    articlesMs?: number;
+  };
+}
+
+export interface UnavailableHost {
+  host: string;
+  // Failed requests in a row
+  failures: number;
+  // When the next trial request will be let through
+  retryAt: string;
+}
+
+// A listing-page link the classifier did not take for an article
+export interface RejectedLink {
+  url: string;
+  // null when a hard rule (off-site, excluded, not a page) ruled it out
+  score: number | null;
+  reasons: string[];
+}
+
+// How a scrape changed the article store
+export interface SaveSummary {
+  added: number;
+  // Seen before with different content
+  updated: number;
+  unchanged: number;
+}
+
+// An article as kept in the store, keyed by its canonical URL
+export interface StoredArticle extends NewsItem {
+  id: number;
+  canonicalUrl: string;
+  contentHash: string;
+  firstSeen: string;
+  lastSeen: string;
+  // When the content hash last changed
+  updatedAt: string;
+}
+
+export interface ArticleHistory {
+  articles: StoredArticle[];
+  total: number;
+}
+
+// One scheduled source as reported by GET /api/jobs
+export interface JobStatus {
+  id: string;
+  name: string;
+  url: string;
+  intervalMinutes: number;
+  running: boolean;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  // Failed runs in a row; each one doubles the wait before the next attempt
+  consecutiveFailures: number;
+  nextRunAt: string | null;
+  lastResult: { articles: number; stored?: SaveSummary } | null;
+}